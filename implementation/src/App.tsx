@@ -3,18 +3,49 @@
 import React, { useState } from 'react';
 import './global-modern.css';
 import { theme } from './theme';
-// Settings keys
-const SETTINGS_KEY = 'fbk_settings';
-const PLAYER_LEVEL_KEY = 'fbk_player_level';
 
-type NoteNaming = 'US' | 'German' | 'Mixed';
+// 'identify': name the highlighted note; 'locate': tap the fretboard where the named note is;
+// 'interval': name the interval between two highlighted positions;
+// 'chord': name a highlighted chord voicing or the role of one of its notes;
+// 'ear': name (or find on the fretboard) a note that is only played, not shown
+type QuizMode = 'identify' | 'locate' | 'interval' | 'chord' | 'ear';
+
+function getProgressTrack(quizMode: QuizMode): ProgressTrack {
+  if (quizMode === 'interval') return 'intervals';
+  if (quizMode === 'chord') return 'chords';
+  if (quizMode === 'ear') return 'ear';
+  return 'notes';
+}
+
+// When the question's notes are played: never, as soon as it appears, or once it is answered
+type Playback = 'off' | 'question' | 'answer';
 
 type Settings = {
   showStringNames: boolean;
   fretboardColor: string;
   baseTimer: number; // Base timer in seconds (will be adjusted based on performance)
-  adaptiveTiming: boolean; // Whether to adjust timing based on score
+  adaptiveTiming: boolean; // Whether to adjust timing to measured reaction times
+  fretCount: number; // Neck length shown on the fretboard (FRETS..MAX_FRETS)
   noteNaming: NoteNaming; // Note naming convention
+  accidentals: AccidentalSpelling; // Sharps, flats, both, or as in the key below
+  keySignature: string; // Major key for key-aware spelling and movable Do, as in NOTE_NAMES
+  solfege: SolfegeSystem; // Fixed or movable Do, for solfège naming
+  enharmonicTraps: boolean; // Note questions may offer the right note under a wrong spelling
+  distractors: DistractorStrategy; // How the wrong options of note questions are chosen
+  optionCount: number; // Options per note question, one of OPTION_COUNTS
+  quizMode: QuizMode; // Question type for rounds
+  locateOnString: boolean; // Locate mode: ask for the note on one given string instead of everywhere
+  earExactPosition: boolean; // Ear training: answer with the string and fret instead of the note name
+  micAnswer: boolean; // Name/find the note: answer by playing it on a real instrument into the microphone
+  instrumentId: string; // Instrument profile (string count and tuning presets)
+  tuningId: string; // Tuning preset id, or CUSTOM_TUNING_ID to use customTuning
+  customTuning: string[]; // Open-string notes for the custom tuning, 1st string first
+  playback: Playback; // When to play the question's notes
+  volume: number; // Playback volume, 0-100
+  dailyGoal: DailyGoal; // What a day's practice should reach, see achievements.ts
+  curriculumId: string; // Note ladder: BUILT_IN_CURRICULUM_ID or a custom curriculum, see curriculum.ts
+  fretWindow: FretWindow; // Frets and strings of window rounds
+  movingWindow: boolean; // Window rounds slide the window one fret up the neck after each round
 };
 
 function getDefaultSettings(): Settings {
@@ -23,7 +54,27 @@ function getDefaultSettings(): Settings {
     fretboardColor: '#222',
     baseTimer: 5,
     adaptiveTiming: true,
+    fretCount: FRETS,
     noteNaming: 'US',
+    accidentals: 'sharp',
+    keySignature: 'C',
+    solfege: 'fixed',
+    enharmonicTraps: false,
+    distractors: 'random',
+    optionCount: 3,
+    quizMode: 'identify',
+    locateOnString: false,
+    earExactPosition: false,
+    micAnswer: false,
+    instrumentId: DEFAULT_INSTRUMENT.id,
+    tuningId: 'standard',
+    customTuning: [...DEFAULT_INSTRUMENT.tunings[0].strings],
+    playback: 'question',
+    volume: 70,
+    dailyGoal: DEFAULT_DAILY_GOAL,
+    curriculumId: BUILT_IN_CURRICULUM_ID,
+    fretWindow: { minFret: 5, maxFret: 8, strings: DEFAULT_INSTRUMENT.tunings[0].strings.map((_, i) => i) },
+    movingWindow: false,
   };
 }
 
@@ -32,162 +83,211 @@ import { useContext } from 'react';
 import { ColorModeContext } from './components/ColorModeContext';
 import LevelMap from './components/LevelMap';
 import Tabs from './components/Tabs';
+import {
+  INTERVAL_LABELS,
+  INTERVAL_MAX_LEVEL,
+  INTERVAL_NAMES,
+  getIntervalLevelConstraints,
+  getRandomIntervalQuiz,
+} from './intervals';
+import {
+  CHORD_MAX_LEVEL,
+  CHORD_TONES,
+  getChordKey,
+  getChordLevelConstraints,
+  getChordSymbol,
+  getRandomChordQuiz,
+} from './chords';
+import { getRepetitionLevelRange, isRepetitionLevel } from './levels';
+import {
+  DEFAULT_ROUND_RULES,
+  FRETS,
+  createIdleRound,
+  createRoundEngine,
+  getBaseMaxLevel,
+  getBuiltInLevels,
+  getLevelCells,
+  getNextWindow,
+  getWindowLevel,
+  getRandomQuiz,
+  getRoundOutcome,
+  isSamePosition,
+  type FretWindow,
+  type LoggedQuestion,
+  type ProgressTrack,
+  type Quiz,
+  type QuizOptions,
+  type RoundPlan,
+  type RoundRules,
+  type RoundState,
+} from './engine';
+import { BUILT_IN_CURRICULUM_ID, describeLevel, type Curriculum } from './curriculum';
+import Fretboard, { type FretMark, type FretPosition } from './components/Fretboard';
+import ScaleExplorer from './components/ScaleExplorer';
+import MasteryHeatmap from './components/MasteryHeatmap';
+import RoundSummary, { type RoundLogEntry } from './components/RoundSummary';
+import ProfilePicker from './components/ProfilePicker';
+import Achievements from './components/Achievements';
+import StatsDashboard from './components/StatsDashboard';
+import CurriculumEditor from './components/CurriculumEditor';
+import TuningEditor from './components/TuningEditor';
+import FretRangeSlider from './components/FretRangeSlider';
+import {
+  NOTE_NAMES,
+  convertNoteToDisplay,
+  convertOptionToDisplay,
+  getEnharmonicTrap,
+  getKeyName,
+  getNoteName,
+  getOptionNote,
+  type AccidentalSpelling,
+  type NoteNaming,
+  type NoteSpelling,
+  type SolfegeSystem,
+} from './notes';
+import { CUSTOM_TUNING_ID, getTuningKey, getTuningStrings } from './tunings';
+import { getPitch } from './pitch';
+import { playPluckedNotes } from './audio';
+import { startPitchListener } from './microphone';
+import { getCellKey, recordAnswer, type MasteryMap } from './mastery';
+import { getDuePositions, recordReview, type ReviewSchedule } from './spacedRepetition';
+import {
+  DEFAULT_DAILY_GOAL,
+  FAST_NOTE_TIME,
+  createAchievementState,
+  evaluateRound,
+  getCurrentStreak,
+  getGoalProgress,
+  getTodayProgress,
+  type AchievementState,
+  type DailyGoal,
+  type DailyGoalType,
+} from './achievements';
+import {
+  ACHIEVEMENTS_KEY,
+  CONFUSIONS_KEY,
+  CURRICULA_KEY,
+  DATE_KEY,
+  HISTORY_DAYS,
+  HISTORY_KEY,
+  MASTERY_KEY,
+  PLAYER_LEVEL_KEY,
+  REVIEW_KEY,
+  SCORE_KEY,
+  SETTINGS_KEY,
+  YESTERDAY_KEY,
+  createLocalStorageBackend,
+  getProgressKey,
+  pruneHistory,
+  readNumber,
+  readObject,
+  readString,
+  writeValue,
+} from './storage';
+import { createIndexedDbAnswerLog, type AnswerRecord } from './answerLog';
+import { recordRound, setDayScore, type History } from './stats';
+import { DISTRACTOR_LABELS, OPTION_COUNTS, recordConfusion, type ConfusionMap, type DistractorStrategy } from './distractors';
+import {
+  createProfile,
+  deleteProfile,
+  getProfileBackend,
+  loadProfiles,
+  renameProfile,
+  saveProfiles,
+  type ProfileList,
+} from './profiles';
+import { ProgressFileError, exportProgress, importProgress, parseProgressFile, type ImportMode } from './progressFile';
+import { formatReactionTime, getAdaptiveTimer, getStreakMultiplier } from './scoring';
+import {
+  DEFAULT_INSTRUMENT,
+  INSTRUMENT_PROFILES,
+  getInstrumentProfile,
+} from './instruments';
 import './App.css';
 import logo from './logo.svg';
 
 
-const STRINGS = ['E', 'B', 'G', 'D', 'A', 'E']; // Standard tuning: index 0 = 1st string (high E), index 5 = 6th string (low E). Display: high E at top, low E at bottom (standard TAB notation)
-const FRETS = 12;
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const QUESTIONS_PER_ROUND = 15;
-const MAX_LEVEL = 26; // Extended to accommodate more repetition levels
+const MAX_FRETS = 24; // Longest configurable neck
+const INTERVAL_NOTE_SPACING = 0.6; // Seconds between the root and target of a played interval
+const CHORD_STRUM_SPACING = 0.04; // Seconds between strings of a played chord
+const RECENT_RESPONSES = 20; // Reaction times the adaptive timer looks at
 
-// Note name conversion utilities
-// In German notation: B → H, A# (B-flat) → B
-function convertNoteToDisplay(usNote: string, naming: NoteNaming): string {
-  if (naming === 'US') {
-    return usNote;
-  }
-  
-  let germanNote = usNote;
-  if (usNote === 'B') {
-    germanNote = 'H';
-  } else if (usNote === 'A#') {
-    germanNote = 'B';
-  }
-  
-  if (naming === 'German') {
-    return germanNote;
-  }
-  
-  // Mixed mode: show both
-  if (usNote === 'B') {
-    return 'H/B';
-  } else if (usNote === 'A#') {
-    return 'B/A#';
-  }
-  return usNote;
+// Progress (level, scores, history) is kept separately for each practice track, instrument and tuning,
+// and for each custom curriculum of the note ladder.
+// Note training on the standard 6-string tuning keeps the original keys so existing progress carries over.
+function getProgressScope(track: ProgressTrack, tuningKey: string, curriculum: Curriculum | null = null): string {
+  const ladder = curriculum ? `${track}~${curriculum.id}` : track;
+  return ladder === 'notes' ? tuningKey : `${ladder}@${tuningKey}`;
 }
 
-// Helper function to check if a level is a repetition level
-// Repetition levels occur every 3rd level: levels 2, 5, 8, 11, 14, 17, 20, 23, 26...
-function isRepetitionLevel(level: number): boolean {
-  return level > 0 && (level + 1) % 3 === 0;
+// Get today's date as YYYY-MM-DD
+function todayStr() {
+  return new Date().toISOString().slice(0, 10);
 }
 
-// Helper function to get the range of levels that a repetition level covers
-// For example, level 2 covers levels 0-1, level 5 covers levels 3-4
-function getRepetitionLevelRange(level: number): { start: number; end: number } {
-  if (!isRepetitionLevel(level)) {
-    return { start: level, end: level };
-  }
-  const end = level - 1;
-  const start = Math.max(0, end - 1);
-  return { start, end };
+// Saved progress and settings of the active profile, see storage.ts and profiles.ts;
+// the answer log is in IndexedDB, see answerLog.ts. Switching profiles reloads the app.
+const rootStorage = createLocalStorageBackend();
+const storage = getProfileBackend(rootStorage, loadProfiles(rootStorage).activeId);
+const answerLog = createIndexedDbAnswerLog();
+// Answers are kept as long as the score history
+answerLog.prune(Date.now() - HISTORY_DAYS * 86400000).catch(() => {
+  // Best effort, as when logging answers
+});
+// Rounds and their questions, see engine.ts
+const roundEngine = createRoundEngine();
+
+function loadPlayerLevel(scope: string): number {
+  return readNumber(storage, getProgressKey(PLAYER_LEVEL_KEY, scope));
 }
 
-// Map effective level (accounting for repetition levels) to actual progression level
-// This ensures that repetition levels don't affect the actual progression
-function getProgressionLevel(level: number): number {
-  // Count how many repetition levels exist before this level
-  const repetitionLevelsBefore = Math.floor(level / 3);
-  return level - repetitionLevelsBefore;
+function loadScore(scope: string): number {
+  if (readString(storage, getProgressKey(DATE_KEY, scope)) !== todayStr()) return 0;
+  return readNumber(storage, getProgressKey(SCORE_KEY, scope));
 }
 
-// Level progression: determines which strings and frets are available at each level
-// Note: String indices follow guitar numbering (0 = 1st string/high E, 5 = 6th string/low E)
-// Display: 1st string (high E) shown at TOP (standard TAB notation)
-// Progression: Start with LOW strings (6th string/low E) and progress to HIGH strings
-// 
-// New progression with more repetitions and gradual difficulty increase:
-// Level 0: String 5 (6th string, low E), frets 0-1 (2 notes: E, F)
-// Level 1: String 5, frets 0-2 (adds 1 note: F#)
-// Level 2: REPETITION - tests levels 0-1
-// Level 3: Strings 4-5, frets 0-2 (adds new string with 3 notes: A, A#, B)
-// Level 4: Strings 4-5, frets 0-3 (adds 1 fret: C on string 5, G on string 4)
-// Level 5: REPETITION - tests levels 3-4
-// Level 6: Strings 4-5, frets 0-4 (adds 1 fret: C# on string 5, G# on string 4)
-// Level 7: Strings 3-5, frets 0-4 (adds new string with 2 notes: D, D#)
-// Level 8: REPETITION - tests levels 6-7
-// ... and so on with repetitions every 3rd level
-function getLevelConstraints(level: number): { minString: number; maxFret: number } {
-  // Handle repetition levels - they test the previous 2 levels
-  if (isRepetitionLevel(level)) {
-    const range = getRepetitionLevelRange(level);
-    // Get constraints for all levels in the range and combine them
-    const constraints = [];
-    for (let i = range.start; i <= range.end; i++) {
-      // Skip if somehow a repetition level is in the range (should not happen by design)
-      if (!isRepetitionLevel(i)) {
-        constraints.push(getLevelConstraints(i));
-      }
-    }
-    // Use the most permissive constraints (lowest minString, highest maxFret)
-    const minString = Math.min(...constraints.map(c => c.minString));
-    const maxFret = Math.max(...constraints.map(c => c.maxFret));
-    return { minString, maxFret };
-  }
-  
-  // For regular levels, use progression level to determine constraints
-  const progLevel = getProgressionLevel(level);
-  
-  if (progLevel === 0) return { minString: 5, maxFret: 1 }; // 6th string (low E), 2 frets (0-1)
-  if (progLevel === 1) return { minString: 5, maxFret: 2 }; // 6th string, 3 frets (0-2)
-  if (progLevel === 2) return { minString: 4, maxFret: 2 }; // 5th-6th strings, 3 frets
-  if (progLevel === 3) return { minString: 4, maxFret: 3 }; // 5th-6th strings, 4 frets
-  if (progLevel === 4) return { minString: 4, maxFret: 4 }; // 5th-6th strings, 5 frets
-  if (progLevel === 5) return { minString: 3, maxFret: 4 }; // 4th-6th strings, 5 frets
-  if (progLevel === 6) return { minString: 3, maxFret: 5 }; // 4th-6th strings, 6 frets
-  if (progLevel === 7) return { minString: 2, maxFret: 5 }; // 3rd-6th strings, 6 frets
-  if (progLevel === 8) return { minString: 2, maxFret: 6 }; // 3rd-6th strings, 7 frets
-  if (progLevel === 9) return { minString: 1, maxFret: 6 }; // 2nd-6th strings, 7 frets
-  if (progLevel === 10) return { minString: 1, maxFret: 7 }; // 2nd-6th strings, 8 frets
-  if (progLevel === 11) return { minString: 0, maxFret: 7 }; // All strings, 8 frets
-  if (progLevel === 12) return { minString: 0, maxFret: 8 }; // All strings, 9 frets
-  if (progLevel === 13) return { minString: 0, maxFret: 9 }; // All strings, 10 frets
-  if (progLevel === 14) return { minString: 0, maxFret: 10 }; // All strings, 11 frets
-  if (progLevel === 15) return { minString: 0, maxFret: 11 }; // All strings, 12 frets
-  // Level MAX_LEVEL+: All strings and frets
-  return { minString: 0, maxFret: FRETS - 1 };
+function loadYesterdayScore(scope: string): number {
+  if (readString(storage, getProgressKey(DATE_KEY, scope)) !== todayStr()) return 0;
+  return readNumber(storage, getProgressKey(YESTERDAY_KEY, scope));
 }
 
-// Calculate required score to pass a level (percentage-based on round)
-function getRequiredScoreForLevel(): number {
-  // Require 80% correct answers in a round to pass
-  return Math.ceil(QUESTIONS_PER_ROUND * 0.8); // 12 out of 15
+// Daily practice records: { 'YYYY-MM-DD': { score, rounds, ... }, ... }, see stats.ts
+function loadHistory(scope: string): History {
+  return readObject(storage, getProgressKey(HISTORY_KEY, scope), {});
 }
 
-function getNoteName(openNote: string, fret: number) {
-  const openIdx = NOTE_NAMES.indexOf(openNote);
-  return NOTE_NAMES[(openIdx + fret) % 12];
+// Per-cell answer statistics, see mastery.ts
+function loadMastery(scope: string): MasteryMap {
+  return readObject(storage, getProgressKey(MASTERY_KEY, scope), {});
 }
 
+// Spaced-repetition schedule per cell, see spacedRepetition.ts
+function loadReviewSchedule(scope: string): ReviewSchedule {
+  return readObject(storage, getProgressKey(REVIEW_KEY, scope), {});
+}
 
-function getRandomInt(max: number) {
-  return Math.floor(Math.random() * max);
+// Wrong note answers per asked note, see distractors.ts
+function loadConfusions(scope: string): ConfusionMap {
+  return readObject(storage, getProgressKey(CONFUSIONS_KEY, scope), {});
 }
 
-function getRandomQuiz(level: number = 15) {
-  // Get constraints for this level
-  const constraints = getLevelConstraints(level);
-  
-  // Pick a random string and fret within level constraints
-  // String range is from minString to 5 (6th string is always index 5)
-  const stringRange = 5 - constraints.minString + 1;
-  const stringIdx = constraints.minString + getRandomInt(stringRange);
-  const fretIdx = getRandomInt(constraints.maxFret + 1); // 0..maxFret (including open string in quiz)
-  const correctNote = getNoteName(STRINGS[stringIdx], fretIdx);
-  // Pick 2 random incorrect notes
-  let options = [correctNote];
-  while (options.length < 3) {
-    const n = NOTE_NAMES[getRandomInt(12)];
-    if (!options.includes(n)) options.push(n);
-  }
-  // Shuffle options
-  options = options.sort(() => Math.random() - 0.5);
-  return { stringIdx, fretIdx, correctNote, options };
+// Streak, daily goal and badges; shared by every track and tuning
+function loadAchievements(): AchievementState {
+  return { ...createAchievementState(), ...readObject(storage, ACHIEVEMENTS_KEY, {}) };
 }
 
+// Custom curricula by id, see curriculum.ts
+function loadCurricula(): { [id: string]: Curriculum } {
+  return readObject(storage, CURRICULA_KEY, {});
+}
+
+// A round answer: a note name (identify mode), a tapped fretboard position (locate mode),
+// an interval name (interval mode), a chord name / chord tone (chord mode)
+// or a MIDI note played into the microphone
+type QuizAnswer = { note: string } | FretPosition | { interval: string } | { chord: string } | { midi: number };
+
+type RoundLog = Array<RoundLogEntry & { question: LoggedQuestion }>;
+
 function App() {
   const { colorMode } = useContext(ColorModeContext);
   // Detect portrait mode on small mobile devices
@@ -209,36 +309,63 @@ function App() {
 
   // Settings state
   const [settings, setSettings] = useState<Settings>(() => {
-    try {
-      return { ...getDefaultSettings(), ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
-    } catch {
-      return getDefaultSettings();
-    }
+    return { ...getDefaultSettings(), ...readObject(storage, SETTINGS_KEY, {}) };
   });
   const [settingsOpen, setSettingsOpen] = useState(false);
-  
+
+  // Open-string notes of the selected instrument and tuning; every quiz and fretboard reads from this
+  const instrument = getInstrumentProfile(settings.instrumentId);
+  const tuningStrings = getTuningStrings(instrument.tunings, settings.tuningId, settings.customTuning);
+  const tuningKey = getTuningKey(instrument.id, tuningStrings);
+  const fretCount = Math.min(Math.max(settings.fretCount, FRETS), MAX_FRETS);
+  const track = getProgressTrack(settings.quizMode);
+  // How notes are written everywhere, and the notes that can get an enharmonic trap option
+  const spelling = React.useMemo(
+    (): NoteSpelling => ({ accidentals: settings.accidentals, key: settings.keySignature, solfege: settings.solfege }),
+    [settings.accidentals, settings.keySignature, settings.solfege],
+  );
+  const quizOptions = React.useMemo(
+    (): QuizOptions => ({
+      trapNotes: settings.enharmonicTraps ? NOTE_NAMES.filter((n) => getEnharmonicTrap(n, settings.noteNaming, spelling) !== null) : [],
+      distractors: settings.distractors,
+      optionCount: settings.optionCount,
+    }),
+    [settings.enharmonicTraps, settings.noteNaming, spelling, settings.distractors, settings.optionCount],
+  );
+  // Custom curricula replace the note ladder of note and ear training
+  const [curricula, setCurricula] = useState<{ [id: string]: Curriculum }>(loadCurricula);
+  const isNoteTrack = track === 'notes' || track === 'ear';
+  const curriculum = isNoteTrack ? curricula[settings.curriculumId] ?? null : null;
+  const noteLevels = React.useMemo(
+    () => curriculum?.levels ?? getBuiltInLevels(tuningStrings.length, fretCount),
+    [curriculum, tuningStrings.length, fretCount],
+  );
+  const getNoteLevel = React.useCallback((level: number) => noteLevels[Math.min(level, noteLevels.length - 1)], [noteLevels]);
+  const progressScope = getProgressScope(track, tuningKey, curriculum);
+  const trackMaxLevel = track === 'intervals' ? INTERVAL_MAX_LEVEL : track === 'chords' ? CHORD_MAX_LEVEL : undefined;
+  const maxLevel = trackMaxLevel ?? noteLevels.length - 1;
+  const baseMaxLevel = trackMaxLevel ?? (curriculum ? maxLevel : getBaseMaxLevel(tuningStrings.length));
+  // Round length and pass score at a level of the current track
+  const getRoundRules = React.useCallback(
+    (level: number): RoundRules => (isNoteTrack ? getNoteLevel(level) : DEFAULT_ROUND_RULES),
+    [isNoteTrack, getNoteLevel],
+  );
+
   // Player level state
-  const [playerLevel, setPlayerLevel] = useState<number>(() => {
-    try {
-      const stored = localStorage.getItem(PLAYER_LEVEL_KEY);
-      return stored ? parseInt(stored, 10) : 0;
-    } catch {
-      return 0;
-    }
-  });
+  const [playerLevel, setPlayerLevel] = useState<number>(() => loadPlayerLevel(progressScope));
   
   // Tab state
   const [activeTab, setActiveTab] = useState<string>('play');
   
   // Persist settings
   React.useEffect(() => {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    writeValue(storage, SETTINGS_KEY, settings);
   }, [settings]);
   
   // Persist player level
   React.useEffect(() => {
-    localStorage.setItem(PLAYER_LEVEL_KEY, playerLevel.toString());
-  }, [playerLevel]);
+    writeValue(storage, getProgressKey(PLAYER_LEVEL_KEY, progressScope), playerLevel);
+  }, [playerLevel, progressScope]);
   // Settings handlers
   function handleToggleStringNames() {
     setSettings((s) => ({ ...s, showStringNames: !s.showStringNames }));
@@ -249,76 +376,240 @@ function App() {
   function handleTimerChange(e: React.ChangeEvent<HTMLInputElement>) {
     setSettings((s) => ({ ...s, baseTimer: parseInt(e.target.value, 10) || 5 }));
   }
+  function handleFretCountChange(e: React.ChangeEvent<HTMLInputElement>) {
+    setSettings((s) => ({ ...s, fretCount: parseInt(e.target.value, 10) || FRETS }));
+  }
   function handleAdaptiveTimingToggle() {
     setSettings((s) => ({ ...s, adaptiveTiming: !s.adaptiveTiming }));
   }
   
+  function handleQuizModeChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, quizMode: e.target.value as QuizMode }));
+  }
+  function handleLocateOnStringToggle() {
+    setSettings((s) => ({ ...s, locateOnString: !s.locateOnString }));
+  }
+  function handleMicAnswerToggle() {
+    setSettings((s) => ({ ...s, micAnswer: !s.micAnswer }));
+  }
+  function handleEarExactPositionToggle() {
+    setSettings((s) => ({ ...s, earExactPosition: !s.earExactPosition }));
+  }
+  
+  function handlePlaybackChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, playback: e.target.value as Playback }));
+  }
+  function handleVolumeChange(e: React.ChangeEvent<HTMLInputElement>) {
+    setSettings((s) => ({ ...s, volume: parseInt(e.target.value, 10) }));
+  }
+  
+  function handleDailyGoalTypeChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const type = e.target.value as DailyGoalType;
+    // Keep the target in a sensible range for the new unit
+    setSettings((s) => ({ ...s, dailyGoal: { type, target: type === 'questions' ? DEFAULT_DAILY_GOAL.target : 3 } }));
+  }
+  function handleDailyGoalTargetChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const target = Math.max(1, parseInt(e.target.value, 10) || 1);
+    setSettings((s) => ({ ...s, dailyGoal: { ...s.dailyGoal, target } }));
+  }
+
   function handleNoteNamingChange(e: React.ChangeEvent<HTMLSelectElement>) {
     setSettings((s) => ({ ...s, noteNaming: e.target.value as NoteNaming }));
   }
+
+  function handleAccidentalsChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, accidentals: e.target.value as AccidentalSpelling }));
+  }
+
+  function handleKeySignatureChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, keySignature: e.target.value }));
+  }
+
+  function handleSolfegeChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, solfege: e.target.value as SolfegeSystem }));
+  }
+
+  function handleEnharmonicTrapsChange(e: React.ChangeEvent<HTMLInputElement>) {
+    setSettings((s) => ({ ...s, enharmonicTraps: e.target.checked }));
+  }
+
+  function handleDistractorsChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, distractors: e.target.value as DistractorStrategy }));
+  }
+
+  function handleOptionCountChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setSettings((s) => ({ ...s, optionCount: parseInt(e.target.value, 10) }));
+  }
+
+  function handleInstrumentChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const profile = getInstrumentProfile(e.target.value);
+    // Tunings are per instrument, so start over from the new instrument's standard tuning
+    setSettings((s) => ({
+      ...s,
+      instrumentId: profile.id,
+      tuningId: profile.tunings[0].id,
+      customTuning: [...profile.tunings[0].strings],
+    }));
+  }
+
+  function handleTuningChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const tuningId = e.target.value;
+    // Start the custom editor from the tuning currently in use
+    setSettings((s) => ({
+      ...s,
+      tuningId,
+      customTuning: tuningId === CUSTOM_TUNING_ID && s.tuningId !== CUSTOM_TUNING_ID ? [...tuningStrings] : s.customTuning,
+    }));
+  }
+
+  function handleCustomTuningChange(strings: string[]) {
+    setSettings((s) => ({ ...s, customTuning: strings }));
+  }
   
   function handleResetLevel() {
     if (confirm('Are you sure you want to reset your level to 0? This cannot be undone.')) {
       setPlayerLevel(0);
-      localStorage.setItem(PLAYER_LEVEL_KEY, '0');
+      writeValue(storage, getProgressKey(PLAYER_LEVEL_KEY, progressScope), 0);
     }
   }
 
-  // Local storage keys
-  const SCORE_KEY = 'fbk_score';
-  const YESTERDAY_KEY = 'fbk_yesterday';
-  const DATE_KEY = 'fbk_date';
-  const HISTORY_KEY = 'fbk_history'; // { 'YYYY-MM-DD': score, ... }
-
-  // Get today's date as YYYY-MM-DD
-  function todayStr() {
-    return new Date().toISOString().slice(0, 10);
-  }
-
-  // State
-  const [score, setScore] = useState(() => {
-    const storedDate = localStorage.getItem(DATE_KEY);
-    const storedScore = localStorage.getItem(SCORE_KEY);
-    if (storedDate === todayStr() && storedScore) {
-      return parseInt(storedScore, 10);
-    }
-    return 0;
-  });
-  const [yesterdayScore, setYesterdayScore] = useState(() => {
-    const storedDate = localStorage.getItem(DATE_KEY);
-    const storedYesterday = localStorage.getItem(YESTERDAY_KEY);
-    if (storedDate === todayStr() && storedYesterday) {
-      return parseInt(storedYesterday, 10);
+  // Player profiles: switching, creating and deleting the active one reload the app with its data
+  const [profileList, setProfileList] = useState<ProfileList>(() => loadProfiles(rootStorage));
+  function updateProfiles(list: ProfileList) {
+    saveProfiles(rootStorage, list);
+    if (list.activeId !== profileList.activeId) {
+      window.location.reload();
+    } else {
+      setProfileList(list);
     }
-    return 0;
-  });
-  // Score history: { 'YYYY-MM-DD': score, ... }
-  const [history, setHistory] = useState<{ [date: string]: number }>(() => {
+  }
+  // The profile's answers are cleared before a switch reloads the app, which would cancel it
+  async function handleProfileDelete(id: string) {
     try {
-      return JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}');
+      await answerLog.clear(id);
     } catch {
-      return {};
+      // Orphaned answers only take space; statistics are read per profile
     }
-  });
-  const [quiz, setQuiz] = useState(() => {
-    // Load stored player level to initialize quiz at correct difficulty
+    updateProfiles(deleteProfile(rootStorage, profileList, id));
+  }
+
+  // Progress backup: download everything as one file, or load a file into this browser
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importError, setImportError] = useState<string | null>(null);
+  function handleExportProgress() {
+    const blob = new Blob([JSON.stringify(exportProgress(storage), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fretboard-king-progress-${todayStr()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+  async function handleImportProgress(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after an error
+    if (!file) return;
+    setImportError(null);
     try {
-      const stored = localStorage.getItem(PLAYER_LEVEL_KEY);
-      const level = stored ? parseInt(stored, 10) : 0;
-      return getRandomQuiz(level);
-    } catch {
-      return getRandomQuiz(0);
+      const progress = parseProgressFile(await file.text());
+      if (importMode === 'replace' && !confirm('Replace all progress and settings of this player with the imported file? This cannot be undone.')) {
+        return;
+      }
+      importProgress(progress, importMode, storage);
+      // Progress is read from storage at startup, so start over with the imported data
+      window.location.reload();
+    } catch (err) {
+      setImportError(err instanceof ProgressFileError ? err.message : 'The file could not be read.');
     }
-  });
+  }
+
+  // State
+  const [score, setScore] = useState(() => loadScore(progressScope));
+  const [yesterdayScore, setYesterdayScore] = useState(() => loadYesterdayScore(progressScope));
+  const [history, setHistory] = useState<History>(() => loadHistory(progressScope));
+  // The track and tuning's logged answers, read from the answer log while the Stats tab is open
+  const [loggedAnswers, setLoggedAnswers] = useState<AnswerRecord[]>([]);
+  const [mastery, setMastery] = useState<MasteryMap>(() => loadMastery(progressScope));
+  const [reviewSchedule, setReviewSchedule] = useState<ReviewSchedule>(() => loadReviewSchedule(progressScope));
+  const [confusions, setConfusions] = useState<ConfusionMap>(() => loadConfusions(progressScope));
+  const [achievements, setAchievements] = useState<AchievementState>(loadAchievements);
+  // Initialize quiz at the stored player level's difficulty
+  const [quiz, setQuiz] = useState(() => getRandomQuiz(getNoteLevel(isNoteTrack ? playerLevel : 0), tuningStrings, fretCount, mastery));
+  const [intervalQuiz, setIntervalQuiz] = useState(() => getRandomIntervalQuiz(track === 'intervals' ? playerLevel : 0, tuningStrings, fretCount));
+  const [chordQuiz, setChordQuiz] = useState(() => getRandomChordQuiz(track === 'chords' ? playerLevel : 0, tuningStrings, fretCount));
   const [selected, setSelected] = useState<string | null>(null);
+  // Locate mode: occurrences tapped so far and the wrong tap that ended the question, if any
+  const [foundPositions, setFoundPositions] = useState<FretPosition[]>([]);
+  const [wrongPosition, setWrongPosition] = useState<FretPosition | null>(null);
+  // Microphone answers: the note currently heard and why listening failed, if it did
+  const [heardMidi, setHeardMidi] = useState<number | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<string | null>(null);
   const [timer, setTimer] = useState<number>(5);
 
-  // Round state
-  const [roundActive, setRoundActive] = useState(false);
-  const [questionsInRound, setQuestionsInRound] = useState(0);
-  const [roundScore, setRoundScore] = useState(0);
-  const [practicingLevel, setPracticingLevel] = useState<number>(0);
+  // Round state: phase, level practiced, plan, progress and scores, see engine.ts
+  const [round, setRound] = useState<RoundState>(createIdleRound);
+  const roundActive = round.phase === 'question' || round.phase === 'feedback';
+  const [recentTimes, setRecentTimes] = useState<number[]>([]); // Latest reaction times (ms), across rounds
+  // Every decided question of the round, for the summary shown once it ends
+  const [roundLog, setRoundLog] = useState<RoundLog>([]);
+  // Fret window practice: the window being set up on the Play tab, or the running window round's
+  const [windowOpen, setWindowOpen] = useState(false);
+  const fretWindow = roundActive
+    ? (round.plan?.kind === 'window' ? round.plan.window : null)
+    : windowOpen && isNoteTrack ? settings.fretWindow : null;
+
+  // Switching track or tuning swaps in that scope's progress and abandons any running round.
+  // Done during render so the persistence effects below never see mixed state.
+  const [loadedScope, setLoadedScope] = useState(progressScope);
+  if (loadedScope !== progressScope) {
+    const level = loadPlayerLevel(progressScope);
+    setLoadedScope(progressScope);
+    setPlayerLevel(level);
+    setScore(loadScore(progressScope));
+    setYesterdayScore(loadYesterdayScore(progressScope));
+    setHistory(loadHistory(progressScope));
+    const scopeMastery = loadMastery(progressScope);
+    setMastery(scopeMastery);
+    setReviewSchedule(loadReviewSchedule(progressScope));
+    setConfusions(loadConfusions(progressScope));
+    setRound(createIdleRound());
+    setRoundLog([]);
+    setQuiz(getRandomQuiz(getNoteLevel(isNoteTrack ? level : 0), tuningStrings, fretCount, scopeMastery));
+    setIntervalQuiz(getRandomIntervalQuiz(track === 'intervals' ? level : 0, tuningStrings, fretCount));
+    setChordQuiz(getRandomChordQuiz(track === 'chords' ? level : 0, tuningStrings, fretCount));
+    setSelected(null);
+    setFoundPositions([]);
+    setWrongPosition(null);
+    setFeedback(null);
+  }
+
+  // Positions the player must tap: in locate mode every occurrence of the note (or the one on
+  // the asked string); in ear training any position sounding the played pitch, one tap being enough
+  const playedPitch = React.useMemo(
+    () => getPitch(tuningStrings, instrument.lowestPitch, quiz),
+    [tuningStrings, instrument.lowestPitch, quiz],
+  );
+  const locateTargets = React.useMemo(() => {
+    if (track === 'ear') {
+      return quiz.positions.filter((p) => getPitch(tuningStrings, instrument.lowestPitch, p).midi === playedPitch.midi);
+    }
+    return settings.locateOnString
+      ? quiz.positions.filter((p) => p.stringIdx === quiz.stringIdx)
+      : quiz.positions;
+  }, [track, quiz, tuningStrings, instrument.lowestPitch, playedPitch, settings.locateOnString]);
+  // Note rounds answered by playing into the microphone
+  const micListening = roundActive && settings.micAnswer && track === 'notes';
+  // Rounds answered by tapping the fretboard
+  const isLocating = roundActive && !micListening
+    && (settings.quizMode === 'locate' || (track === 'ear' && settings.earExactPosition));
+  // Cells in play while tapping: the level's (or window's) cells and the targets. The rest of
+  // the neck is dimmed and ignores taps, so the asked note outside the level isn't scored wrong
+  const locateCells = React.useMemo(() => {
+    if (!isLocating) return null;
+    const definition = round.plan?.kind === 'window' ? getWindowLevel(round.plan.window) : getNoteLevel(round.level);
+    return [...getLevelCells(definition, tuningStrings, fretCount), ...locateTargets];
+  }, [isLocating, round.plan, round.level, getNoteLevel, tuningStrings, fretCount, locateTargets]);
 
   // Calculate dynamic timer based on score and settings
   const getCalculatedTimer = React.useCallback((): number => {
@@ -326,61 +617,285 @@ function App() {
       return settings.baseTimer;
     }
     
-    // Adjust timer based on recent performance
-    // If score is low (beginner), give more time
-    // Base calculation: more time for lower scores
-    const recentPerformance = roundActive ? (roundScore / Math.max(questionsInRound, 1)) : (score / Math.max(score + 10, 1));
-    
-    // Scale from 2x base time (for beginners) to 0.7x base time (for experts)
-    const multiplier = Math.max(0.7, Math.min(2.0, 2.0 - recentPerformance * 1.3));
-    
-    return Math.round(settings.baseTimer * multiplier);
-  }, [settings.adaptiveTiming, settings.baseTimer, roundActive, roundScore, questionsInRound, score]);
+    // Adjust timer based on measured reaction times: from 2x base time (for beginners)
+    // to 0.7x base time (for experts)
+    return getAdaptiveTimer(settings.baseTimer, recentTimes);
+  }, [settings.adaptiveTiming, settings.baseTimer, recentTimes]);
+
+  // Locating every occurrence of a note takes longer: allow half the time again per extra occurrence
+  const getQuestionTimer = React.useCallback((q: Quiz): number => {
+    const base = getCalculatedTimer();
+    if (settings.quizMode !== 'locate' || settings.locateOnString) return base;
+    return Math.round(base * (1 + (q.positions.length - 1) / 2));
+  }, [getCalculatedTimer, settings.quizMode, settings.locateOnString]);
+
+  // Play positions as plucked notes at their sounding pitch
+  const playNotes = React.useCallback((positions: FretPosition[], spacing: number = 0) => {
+    const frequencies = positions.map((p) => getPitch(tuningStrings, instrument.lowestPitch, p).frequency);
+    playPluckedNotes(frequencies, settings.volume / 100, spacing);
+  }, [settings.volume, tuningStrings, instrument.lowestPitch]);
+
+  // Play positions if playback is set for this moment; ear training always plays its questions
+  const playPositions = React.useCallback((moment: Playback, positions: FretPosition[], spacing: number = 0) => {
+    if (settings.playback !== moment && !(track === 'ear' && moment === 'question')) return;
+    // The microphone would take the question's own sound for the answer
+    if (settings.micAnswer && track === 'notes' && moment === 'question') return;
+    playNotes(positions, spacing);
+  }, [settings.playback, settings.micAnswer, track, playNotes]);
+
+  // Latest statistics for picking the next question, read when it is generated
+  const masteryRef = React.useRef(mastery);
+  React.useEffect(() => {
+    masteryRef.current = mastery;
+  }, [mastery]);
+  const confusionsRef = React.useRef(confusions);
+  React.useEffect(() => {
+    confusionsRef.current = confusions;
+  }, [confusions]);
+
+  // Record note answers per cell: correct and missed cells of the question just decided
+  const recordResults = React.useCallback((correctCells: FretPosition[], wrongCells: FretPosition[]) => {
+    const time = roundEngine.elapsed(round);
+    setMastery((m) => {
+      let next = m;
+      correctCells.forEach((p) => (next = recordAnswer(next, p, true, time)));
+      wrongCells.forEach((p) => (next = recordAnswer(next, p, false, time)));
+      return next;
+    });
+    // Every answer is also a review: it reschedules the cell
+    setReviewSchedule((schedule) => {
+      let next = schedule;
+      correctCells.forEach((p) => (next = recordReview(next, p, true, time, todayStr())));
+      wrongCells.forEach((p) => (next = recordReview(next, p, false, time, todayStr())));
+      return next;
+    });
+  }, [round]);
+
+  // The current question for the round log: what was asked, its answer and how it looks on the fretboard
+  const describeQuestion = React.useCallback((): Pick<RoundLog[number], 'question' | 'prompt' | 'correctAnswer' | 'marks'> => {
+    const naming = settings.noteNaming;
+    if (track === 'intervals') {
+      const { root, target, correctInterval } = intervalQuiz;
+      const rootNote = convertNoteToDisplay(getNoteName(tuningStrings[root.stringIdx], root.fretIdx), naming, spelling);
+      return {
+        question: { track, quiz: intervalQuiz },
+        prompt: `From ${rootNote} (string ${root.stringIdx + 1}, fret ${root.fretIdx})`,
+        correctAnswer: `${correctInterval} (${INTERVAL_LABELS[correctInterval]})`,
+        marks: [{ ...root, kind: 'root', label: 'R' }, { ...target, kind: 'target', label: correctInterval }],
+      };
+    }
+    if (track === 'chords') {
+      const symbol = getChordSymbol(getChordKey(chordQuiz.root, chordQuiz.quality), naming, spelling);
+      return {
+        question: { track, quiz: chordQuiz },
+        prompt: chordQuiz.question === 'name' ? `Chord from string ${chordQuiz.voicing[0].stringIdx + 1}` : `Marked tone of ${symbol}`,
+        correctAnswer: chordQuiz.question === 'name' ? symbol : chordQuiz.correctAnswer,
+        marks: chordQuiz.voicing.map((p): FretMark => ({
+          stringIdx: p.stringIdx,
+          fretIdx: p.fretIdx,
+          kind: chordQuiz.question === 'tone' && isSamePosition(p, chordQuiz.target) ? 'root' : 'target',
+          label: CHORD_TONES[p.tone],
+        })),
+      };
+    }
+    const question: LoggedQuestion = { track, quiz };
+    const note = convertNoteToDisplay(quiz.correctNote, naming, spelling);
+    const position = `string ${quiz.stringIdx + 1}, fret ${quiz.fretIdx}`;
+    if (track === 'ear') {
+      return {
+        question,
+        prompt: `Played on ${position}`,
+        correctAnswer: `${note}${playedPitch.octave}`,
+        marks: [{ ...quiz, kind: 'root', label: note }],
+      };
+    }
+    if (settings.quizMode === 'locate') {
+      const verb = micListening ? 'Play' : 'Find';
+      return {
+        question,
+        prompt: settings.locateOnString ? `${verb} ${note} on string ${quiz.stringIdx + 1}` : `${verb} every ${note}`,
+        correctAnswer: note,
+        marks: locateTargets.map((p): FretMark => ({ ...p, kind: 'reveal' })),
+      };
+    }
+    return {
+      question,
+      prompt: `String ${quiz.stringIdx + 1}, fret ${quiz.fretIdx}`,
+      correctAnswer: note,
+      marks: [{ ...quiz, kind: 'root', label: note }],
+    };
+  }, [track, quiz, intervalQuiz, chordQuiz, tuningStrings, playedPitch, locateTargets, micListening, settings.noteNaming, spelling, settings.quizMode, settings.locateOnString]);
+
+  // Score a decided question from its reaction time: a correct answer counts toward the pass
+  // threshold and earns speed and streak weighted points; returns the points earned.
+  // The question is logged with the given answer (null on time-up) and the taps to replay.
+  const scoreAnswer = React.useCallback((correct: boolean, givenAnswer: string | null, answerMarks: FretMark[] = []): number => {
+    const timeLimit = (track === 'notes' ? getQuestionTimer(quiz) : getCalculatedTimer()) * 1000;
+    const decided = roundEngine.answer(round, correct, timeLimit);
+    const { time, points } = decided.lastAnswer!;
+    setRound(decided);
+    const { marks, ...entry } = describeQuestion();
+    setRoundLog((log) => [...log, { ...entry, givenAnswer, correct, time, marks: [...answerMarks, ...marks] }]);
+    answerLog.append({
+      timestamp: Date.now(),
+      profileId: profileList.activeId,
+      scope: progressScope,
+      mode: settings.quizMode,
+      cell: track === 'notes' || track === 'ear' ? getCellKey(quiz) : undefined,
+      correct,
+      time,
+    }).catch(() => {
+      // Best effort: the log only feeds statistics, and IndexedDB may be blocked (private browsing)
+    });
+    setRecentTimes((times) => [...times, time].slice(-RECENT_RESPONSES));
+    return points;
+  }, [track, quiz, round, getQuestionTimer, getCalculatedTimer, describeQuestion, progressScope, settings.quizMode, profileList.activeId]);
+
+  // Cells due for review today, for the daily review round
+  const duePositions = React.useMemo(
+    () => getDuePositions(reviewSchedule, todayStr(), tuningStrings.length, fretCount),
+    [reviewSchedule, tuningStrings.length, fretCount],
+  );
 
   // Round management functions
-  const startRound = React.useCallback((level?: number) => {
-    setRoundActive(true);
-    setQuestionsInRound(0);
-    setRoundScore(0);
+  // Show the round's current question and return its time limit in seconds.
+  // Review rounds ask their due cells first; retry rounds cycle through their missed questions.
+  const showQuestion = React.useCallback((current: RoundState): number => {
+    const question = roundEngine.getQuestion(current, track, tuningStrings, fretCount, getNoteLevel(current.level), masteryRef.current, {
+      ...quizOptions,
+      confusions: confusionsRef.current,
+    });
+    if (question.track === 'intervals') {
+      setIntervalQuiz(question.quiz);
+      playPositions('question', [question.quiz.root, question.quiz.target], INTERVAL_NOTE_SPACING);
+      return getCalculatedTimer();
+    }
+    if (question.track === 'chords') {
+      setChordQuiz(question.quiz);
+      playPositions('question', question.quiz.voicing, CHORD_STRUM_SPACING);
+      return getCalculatedTimer();
+    }
+    setQuiz(question.quiz);
+    playPositions('question', [question.quiz]);
+    return getQuestionTimer(question.quiz);
+  }, [track, tuningStrings, fretCount, getNoteLevel, quizOptions, playPositions, getCalculatedTimer, getQuestionTimer]);
+
+  const startRound = React.useCallback((level?: number, plan: RoundPlan | null = null) => {
     // If a specific level is provided, use it; otherwise use current player level
     const levelToUse = level !== undefined ? level : playerLevel;
-    setQuiz(getRandomQuiz(levelToUse));
-    // Store the level being practiced for use in the round
-    setPracticingLevel(levelToUse);
-    // Timer will be set by the next useEffect once roundActive is true
+    const started = roundEngine.start(levelToUse, plan, plan?.kind === 'window' ? getWindowLevel(plan.window) : getRoundRules(levelToUse));
+    setRound(started);
+    setRoundLog([]);
+    setTimer(showQuestion(started));
     setSelected(null);
+    setFoundPositions([]);
+    setWrongPosition(null);
     setFeedback(null);
-  }, [playerLevel]);
+  }, [playerLevel, getRoundRules, showQuestion]);
 
-  const endRound = React.useCallback(() => {
-    setRoundActive(false);
-    const requiredScore = getRequiredScoreForLevel();
-    const passed = roundScore >= requiredScore;
+  // Report a finished round: result message, achievements, level-up, score and history
+  const endRound = React.useCallback((finished: RoundState) => {
+    const { level: practicingLevel, correct: roundScore, points: roundPoints, times: roundTimes, questionCount, passScore: requiredScore } = finished;
+    // Points and reaction times of the round, appended to the result message
+    const summary = ` ${roundPoints} points.` + (roundTimes.length > 0
+      ? ` Avg reaction ${formatReactionTime(roundTimes.reduce((sum, t) => sum + t, 0) / roundTimes.length)}, best ${formatReactionTime(Math.min(...roundTimes))}.`
+      : '');
+    const { passed, outcome } = getRoundOutcome(finished, playerLevel, maxLevel);
+
+    // Streak, daily goal and badges, appended to the result message
+    const evaluation = evaluateRound(achievements, {
+      date: todayStr(),
+      track,
+      kind: finished.plan?.kind ?? 'regular',
+      curriculum: curriculum !== null,
+      questions: questionCount,
+      correct: roundScore,
+      passed,
+      level: practicingLevel,
+      baseMaxLevel,
+      fastNotes: roundLog.filter((entry) => (
+        entry.correct && entry.time < FAST_NOTE_TIME && (entry.question.track === 'notes' || entry.question.track === 'ear')
+      )).length,
+    }, settings.dailyGoal);
+    setAchievements(evaluation.state);
+    const rewards = (evaluation.goalReached ? ' 🎯 Daily goal reached!' : '')
+      + evaluation.unlocked.map((badge) => ` ${badge.icon} Badge unlocked: ${badge.name}!`).join('');
     
-    // Only allow leveling up when practicing the current level (not when replaying earlier levels)
-    const canLevelUp = passed && practicingLevel === playerLevel && playerLevel < MAX_LEVEL;
+    // Only practicing the current level levels up (not replaying earlier levels), see getRoundOutcome
+    const canLevelUp = outcome === 'levelUp';
     
-    if (canLevelUp) {
-      setFeedback(`🎉 Round completed! You scored ${roundScore}/${QUESTIONS_PER_ROUND} - Level up! 🎉`);
+    if (outcome === 'review') {
+      setFeedback(`📅 Round completed! You scored ${roundScore}/${questionCount} - Daily review done!${summary}${rewards}`);
+    } else if (outcome === 'retry') {
+      setFeedback(`🔁 Round completed! You scored ${roundScore}/${questionCount} on your misses!${summary}${rewards}`);
+    } else if (finished.plan?.kind === 'window') {
+      const { minFret, maxFret } = finished.plan.window;
+      setFeedback(`🪟 Round completed! You scored ${roundScore}/${questionCount} on frets ${minFret}-${maxFret}!${summary}${rewards}`);
+      // Moving-window drill: the next window round starts one fret further up
+      if (settings.movingWindow) {
+        const next = getNextWindow(finished.plan.window, fretCount);
+        setSettings((s) => ({ ...s, fretWindow: { ...s.fretWindow, minFret: next.minFret, maxFret: next.maxFret } }));
+      }
+    } else if (canLevelUp) {
+      setFeedback(`🎉 Round completed! You scored ${roundScore}/${questionCount} - Level up! 🎉${summary}${rewards}`);
       setPlayerLevel((level) => level + 1);
-    } else if (passed && practicingLevel === playerLevel) {
-      // Passed current level but already at max level
-      setFeedback(`🎉 Round completed! You scored ${roundScore}/${QUESTIONS_PER_ROUND} - Maximum level reached! 🎉`);
-    } else if (passed) {
+    } else if (outcome === 'maxLevel') {
+      setFeedback(`🎉 Round completed! You scored ${roundScore}/${questionCount} - Maximum level reached! 🎉${summary}${rewards}`);
+    } else if (outcome === 'practice') {
       // Passed a replay level - award points but no level up
-      setFeedback(`✅ Round completed! You scored ${roundScore}/${QUESTIONS_PER_ROUND} - Great practice! Points added! 🎯`);
+      setFeedback(`✅ Round completed! You scored ${roundScore}/${questionCount} - Great practice! Points added! 🎯${summary}${rewards}`);
     } else {
-      setFeedback(`Round completed! You scored ${roundScore}/${QUESTIONS_PER_ROUND} - Need ${requiredScore} to level up. Try again!`);
+      setFeedback(`Round completed! You scored ${roundScore}/${questionCount} - Need ${requiredScore} to level up. Try again!${summary}${rewards}`);
     }
     
-    // Add round score to total score (always, even when replaying)
-    setScore((s) => s + roundScore);
-  }, [roundScore, QUESTIONS_PER_ROUND, playerLevel, practicingLevel]);
+    // Add round points to total score (always, even when replaying)
+    setScore((s) => s + roundPoints);
+    // Record the round in today's practice record, for the Stats tab. Window rounds aren't
+    // played at a ladder level, so they only count towards the questions and answers
+    const historyKey = getProgressKey(HISTORY_KEY, progressScope);
+    setHistory((prev) => {
+      const newHist = recordRound(prev, todayStr(), {
+        level: finished.plan?.kind === 'window' ? null : practicingLevel,
+        questions: questionCount,
+        correct: roundScore,
+        levelUp: canLevelUp ? playerLevel + 1 : null,
+      });
+      writeValue(storage, historyKey, newHist);
+      return newHist;
+    });
+  }, [playerLevel, maxLevel, baseMaxLevel, curriculum, roundLog, achievements, track, settings.dailyGoal, settings.movingWindow, fretCount, progressScope]);
+
+  // Move on to the next question in the round, or end the round after the last one
+  const advanceQuestion = React.useCallback(() => {
+    setFeedback(null);
+    setSelected(null);
+    setFoundPositions([]);
+    setWrongPosition(null);
+    
+    const next = roundEngine.next(round);
+    setRound(next);
+    if (next.phase === 'summary') {
+      endRound(next);
+    } else if (next.phase === 'question') {
+      setTimer(showQuestion(next));
+    }
+  }, [round, endRound, showQuestion]);
+
+  // Start a round from the questions missed in the round just summarized, at the same level
+  const retryMisses = React.useCallback(() => {
+    const questions = roundLog.filter((entry) => !entry.correct).map((entry) => entry.question);
+    if (questions.length > 0) startRound(round.level, { kind: 'retry', questions });
+  }, [roundLog, round.level, startRound]);
+
+  // Questions advance after a feedback delay: call the latest advanceQuestion then, so the round
+  // sees the answer just given (the handler's own copy predates it)
+  const advanceQuestionRef = React.useRef(advanceQuestion);
+  React.useEffect(() => {
+    advanceQuestionRef.current = advanceQuestion;
+  }, [advanceQuestion]);
 
   const stopRound = React.useCallback(() => {
-    setRoundActive(false);
-    setQuestionsInRound(0);
-    setRoundScore(0);
+    setRound((r) => roundEngine.stop(r));
     setFeedback('Round stopped');
     setTimeout(() => setFeedback(null), 2000);
   }, []);
@@ -396,100 +911,256 @@ function App() {
     }, TAB_SWITCH_DELAY);
   }, [startRound]);
 
-  // On mount, check if date changed and reset scores if needed
+  // On mount (and on track or tuning switch), check if date changed and reset scores if needed
   React.useEffect(() => {
-    const storedDate = localStorage.getItem(DATE_KEY);
+    const dateKey = getProgressKey(DATE_KEY, progressScope);
+    const scoreKey = getProgressKey(SCORE_KEY, progressScope);
+    const historyKey = getProgressKey(HISTORY_KEY, progressScope);
+    const storedDate = readString(storage, dateKey);
     if (storedDate !== todayStr()) {
       // Store the previous day's score before resetting
-      const previousScore = localStorage.getItem(SCORE_KEY) || '0';
+      const previousScore = readNumber(storage, scoreKey);
       
       // Move yesterday's score
-      localStorage.setItem(YESTERDAY_KEY, previousScore);
-      localStorage.setItem(SCORE_KEY, '0');
-      localStorage.setItem(DATE_KEY, todayStr());
-      setYesterdayScore(parseInt(previousScore, 10));
+      writeValue(storage, getProgressKey(YESTERDAY_KEY, progressScope), previousScore);
+      writeValue(storage, scoreKey, 0);
+      writeValue(storage, dateKey, todayStr());
+      setYesterdayScore(previousScore);
       setScore(0);
       // Add yesterday's score to history
       setHistory((prev) => {
-        const newHist = { ...prev };
-        const yest = storedDate || todayStr();
-        newHist[yest] = parseInt(previousScore, 10);
-        localStorage.setItem(HISTORY_KEY, JSON.stringify(newHist));
+        const newHist = pruneHistory(setDayScore(prev, storedDate || todayStr(), previousScore), todayStr());
+        writeValue(storage, historyKey, newHist);
         return newHist;
       });
     }
-  }, []);
+  }, [progressScope]);
 
   // Persist score, date, and history on change
   React.useEffect(() => {
-    localStorage.setItem(SCORE_KEY, score.toString());
-    localStorage.setItem(DATE_KEY, todayStr());
+    const historyKey = getProgressKey(HISTORY_KEY, progressScope);
+    writeValue(storage, getProgressKey(SCORE_KEY, progressScope), score);
+    writeValue(storage, getProgressKey(DATE_KEY, progressScope), todayStr());
     setHistory((prev) => {
-      const newHist = { ...prev, [todayStr()]: score };
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(newHist));
+      const newHist = pruneHistory(setDayScore(prev, todayStr(), score), todayStr());
+      writeValue(storage, historyKey, newHist);
       return newHist;
     });
-  }, [score]);
+  }, [score, progressScope]);
+
+  // Persist per-cell statistics and the review schedule
+  React.useEffect(() => {
+    writeValue(storage, getProgressKey(MASTERY_KEY, progressScope), mastery);
+  }, [mastery, progressScope]);
+  React.useEffect(() => {
+    writeValue(storage, getProgressKey(REVIEW_KEY, progressScope), reviewSchedule);
+  }, [reviewSchedule, progressScope]);
+  React.useEffect(() => {
+    writeValue(storage, getProgressKey(CONFUSIONS_KEY, progressScope), confusions);
+  }, [confusions, progressScope]);
+  React.useEffect(() => {
+    writeValue(storage, ACHIEVEMENTS_KEY, achievements);
+  }, [achievements]);
+  React.useEffect(() => {
+    writeValue(storage, CURRICULA_KEY, curricula);
+  }, [curricula]);
+
+  // Read the logged answers when the Stats tab opens, for the response time trend
+  React.useEffect(() => {
+    if (activeTab !== 'stats') return;
+    let current = true;
+    answerLog.getAll(profileList.activeId)
+      .then((records) => {
+        if (current) setLoggedAnswers(records.filter((r) => r.scope === progressScope));
+      })
+      .catch(() => {
+        // Without the log the Stats tab shows the daily records only
+      });
+    return () => {
+      current = false;
+    };
+  }, [activeTab, profileList.activeId, progressScope]);
 
   // Timer effect
   React.useEffect(() => {
     if (!roundActive || selected !== null) return;
     if (timer === 0) {
-      setFeedback('⏰ Time up!');
-      setTimeout(() => {
-        setFeedback(null);
-        setSelected(null);
-        
-        // Move to next question in round
-        const nextQuestionNum = questionsInRound + 1;
-        if (nextQuestionNum >= QUESTIONS_PER_ROUND) {
-          endRound();
-        } else {
-          setQuestionsInRound(nextQuestionNum);
-          setQuiz(getRandomQuiz(practicingLevel));
-          setTimer(getCalculatedTimer());
-        }
-      }, 1200);
+      // Time-up decides the question, so this runs once even if dependencies change meanwhile
+      setSelected('');
+      if (isLocating && track === 'notes') {
+        recordResults(foundPositions, locateTargets.filter((t) => !foundPositions.some((p) => isSamePosition(p, t))));
+      } else if (track === 'notes' || track === 'ear') {
+        recordResults([], [quiz]);
+      }
+      scoreAnswer(false, null, foundPositions.map((p): FretMark => ({ ...p, kind: 'correct' })));
+      const found = foundPositions.length;
+      setFeedback(found > 0 ? `⏰ Time up! Found ${found}/${locateTargets.length}` : '⏰ Time up!');
+      setTimeout(() => advanceQuestionRef.current(), 1200);
       return;
     }
     const t = setTimeout(() => setTimer(timer - 1), 1000);
     return () => clearTimeout(t);
-  }, [timer, selected, roundActive, questionsInRound, endRound, getCalculatedTimer, practicingLevel]);
+  }, [timer, selected, roundActive, foundPositions, locateTargets, isLocating, track, quiz, recordResults, scoreAnswer]);
 
-  // Set initial timer when round starts
-  React.useEffect(() => {
-    if (roundActive && questionsInRound === 0) {
-      setTimer(getCalculatedTimer());
+  const handleSelect = React.useCallback((answer: QuizAnswer) => {
+    // Ignore answers once the question is decided or its time ran out
+    if (selected !== null || !roundActive || timer === 0) return;
+
+    // Interval answers: one pick decides the question
+    if ('interval' in answer) {
+      setSelected(answer.interval);
+      playPositions('answer', [intervalQuiz.root, intervalQuiz.target], INTERVAL_NOTE_SPACING);
+      const points = scoreAnswer(answer.interval === intervalQuiz.correctInterval, answer.interval);
+      if (points > 0) {
+        setFeedback(`✅ Correct! +${points}`);
+      } else {
+        setFeedback(`❌ Wrong! The correct answer was: ${intervalQuiz.correctInterval} (${INTERVAL_LABELS[intervalQuiz.correctInterval]})`);
+      }
+      setTimeout(() => advanceQuestionRef.current(), 1200);
+      return;
     }
-  }, [roundActive, questionsInRound, getCalculatedTimer]);
 
-  const handleSelect = React.useCallback((option: string) => {
-    if (selected !== null || !roundActive) return;
-    setSelected(option);
-    const isCorrect = option === quiz.correctNote;
-    
-    if (isCorrect) {
-      setRoundScore((s) => s + 1);
-      setFeedback('✅ Correct!');
-    } else {
-      setFeedback(`❌ Wrong! The correct answer was: ${convertNoteToDisplay(quiz.correctNote, settings.noteNaming)}`);
+    // Played answers: the first correct note decides the question; other notes are ignored,
+    // since the detector also hears open strings ringing and notes on their way to the target
+    if ('midi' in answer) {
+      const correct = settings.quizMode === 'locate'
+        ? NOTE_NAMES[answer.midi % 12] === quiz.correctNote
+        : answer.midi === playedPitch.midi;
+      if (!correct) return;
+      recordResults([quiz], []);
+      setSelected(quiz.correctNote);
+      setFeedback(`✅ Correct! +${scoreAnswer(true, `${convertNoteToDisplay(NOTE_NAMES[answer.midi % 12], settings.noteNaming, spelling)}${Math.floor(answer.midi / 12) - 1}`)}`);
+      setTimeout(() => advanceQuestionRef.current(), 1200);
+      return;
     }
-    
-    setTimeout(() => {
-      setFeedback(null);
-      setSelected(null);
-      
-      // Move to next question in round
-      const nextQuestionNum = questionsInRound + 1;
-      if (nextQuestionNum >= QUESTIONS_PER_ROUND) {
-        endRound();
+
+    // Chord answers: one pick decides the question
+    if ('chord' in answer) {
+      setSelected(answer.chord);
+      playPositions('answer', chordQuiz.voicing, CHORD_STRUM_SPACING);
+      const points = scoreAnswer(
+        answer.chord === chordQuiz.correctAnswer,
+        chordQuiz.question === 'name' ? getChordSymbol(answer.chord, settings.noteNaming, spelling) : answer.chord,
+      );
+      if (points > 0) {
+        setFeedback(`✅ Correct! +${points}`);
+      } else {
+        const correct = chordQuiz.question === 'name'
+          ? getChordSymbol(chordQuiz.correctAnswer, settings.noteNaming, spelling)
+          : chordQuiz.correctAnswer;
+        setFeedback(`❌ Wrong! The correct answer was: ${correct}`);
+      }
+      setTimeout(() => advanceQuestionRef.current(), 1200);
+      return;
+    }
+
+    // Name answers: one pick decides the question
+    if ('note' in answer) {
+      setSelected(answer.note);
+      playPositions('answer', [quiz]);
+      recordResults(answer.note === quiz.correctNote ? [quiz] : [], answer.note === quiz.correctNote ? [] : [quiz]);
+      // A wrong note (not a misspelling of the right one) is remembered for 'confused' distractors
+      if (getOptionNote(answer.note) !== quiz.correctNote) setConfusions((c) => recordConfusion(c, quiz.correctNote, answer.note));
+      const points = scoreAnswer(answer.note === quiz.correctNote, convertOptionToDisplay(answer.note, settings.noteNaming, spelling));
+      if (points > 0) {
+        setFeedback(`✅ Correct! +${points}`);
+      } else {
+        const octave = track === 'ear' ? ` (${convertNoteToDisplay(playedPitch.note, settings.noteNaming, spelling)}${playedPitch.octave})` : '';
+        setFeedback(`❌ Wrong! The correct answer was: ${convertNoteToDisplay(quiz.correctNote, settings.noteNaming, spelling)}${octave}`);
+      }
+      setTimeout(() => advanceQuestionRef.current(), 1200);
+      return;
+    }
+
+    // Position answers: a wrong tap ends the question, finding every occurrence earns the point
+    // (in ear training, finding one position of the played pitch does)
+    if (foundPositions.some((p) => isSamePosition(p, answer))) return;
+    if (locateCells && !locateCells.some((p) => isSamePosition(p, answer))) return;
+    if (!locateTargets.some((p) => isSamePosition(p, answer))) {
+      const tappedNote = getNoteName(tuningStrings[answer.stringIdx], answer.fretIdx);
+      setSelected(`${answer.stringIdx}:${answer.fretIdx}`);
+      setWrongPosition(answer);
+      playPositions('answer', [quiz]);
+      if (track === 'ear') {
+        recordResults([], [quiz]);
       } else {
-        setQuestionsInRound(nextQuestionNum);
-        setQuiz(getRandomQuiz(practicingLevel));
-        setTimer(getCalculatedTimer());
+        recordResults(foundPositions, locateTargets.filter((t) => !foundPositions.some((p) => isSamePosition(p, t))));
       }
-    }, 1200);
-  }, [selected, roundActive, quiz.correctNote, questionsInRound, QUESTIONS_PER_ROUND, endRound, getCalculatedTimer, practicingLevel, settings.noteNaming]);
+      const tapped = convertNoteToDisplay(tappedNote, settings.noteNaming, spelling);
+      scoreAnswer(false, `${tapped} (string ${answer.stringIdx + 1}, fret ${answer.fretIdx})`, [
+        { ...answer, kind: 'wrong', label: tapped },
+        ...foundPositions.map((p): FretMark => ({ ...p, kind: 'correct' })),
+      ]);
+      setFeedback(`❌ Wrong! That was ${tapped}`);
+      setTimeout(() => advanceQuestionRef.current(), 1800);
+      return;
+    }
+    const found = [...foundPositions, answer];
+    setFoundPositions(found);
+    if (found.length === locateTargets.length || track === 'ear') {
+      setSelected(`${answer.stringIdx}:${answer.fretIdx}`);
+      playPositions('answer', [quiz]);
+      recordResults(track === 'ear' ? [quiz] : found, []);
+      const points = scoreAnswer(
+        true,
+        found.length > 1 ? `All ${found.length} found` : `String ${answer.stringIdx + 1}, fret ${answer.fretIdx}`,
+        found.map((p): FretMark => ({ ...p, kind: 'correct' })),
+      );
+      setFeedback(found.length > 1 ? `✅ Correct! All ${found.length} found! +${points}` : `✅ Correct! +${points}`);
+      setTimeout(() => advanceQuestionRef.current(), 1200);
+    }
+  }, [selected, roundActive, timer, quiz, intervalQuiz, chordQuiz, settings.noteNaming, spelling, settings.quizMode, foundPositions, locateTargets, locateCells, tuningStrings, playPositions, track, playedPitch, recordResults, scoreAnswer]);
+
+  // Listen while a microphone round runs and hand every stable note to handleSelect
+  const handleSelectRef = React.useRef(handleSelect);
+  React.useEffect(() => {
+    handleSelectRef.current = handleSelect;
+  }, [handleSelect]);
+  React.useEffect(() => {
+    if (!micListening) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    setMicError(null);
+    startPitchListener((midi) => {
+      setHeardMidi(midi);
+      if (midi !== null) handleSelectRef.current({ midi });
+    }).then((stopListening) => {
+      if (cancelled) stopListening();
+      else stop = stopListening;
+    }).catch(() => setMicError('Microphone not available - check the browser permission'));
+    return () => {
+      cancelled = true;
+      stop?.();
+      setHeardMidi(null);
+    };
+  }, [micListening]);
+
+  // Locate mode marks: taps so far, plus the missed occurrences once the question is over
+  const questionResolved = selected !== null || timer === 0;
+  const locateMarks: FretMark[] = [
+    ...foundPositions.map((p): FretMark => ({ ...p, kind: 'correct' })),
+    ...(wrongPosition ? [{ ...wrongPosition, kind: 'wrong' as const }] : []),
+    ...(questionResolved
+      ? locateTargets
+        .filter((t) => !foundPositions.some((p) => isSamePosition(p, t)))
+        .map((p): FretMark => ({ ...p, kind: 'reveal' }))
+      : []),
+  ];
+  const intervalMarks: FretMark[] = [
+    { ...intervalQuiz.root, kind: 'root', label: 'R' },
+    { ...intervalQuiz.target, kind: 'target', label: '?' },
+  ];
+  // Chord mode marks: the voicing, with the asked note of tone questions marked '?';
+  // chord tones are labelled once the question is over
+  const chordMarks: FretMark[] = chordQuiz.voicing.map((p): FretMark => {
+    const isTarget = chordQuiz.question === 'tone' && isSamePosition(p, chordQuiz.target);
+    return {
+      stringIdx: p.stringIdx,
+      fretIdx: p.fretIdx,
+      kind: isTarget ? 'root' : 'target',
+      label: questionResolved ? CHORD_TONES[p.tone] : isTarget ? '?' : undefined,
+    };
+  });
 
   // Get last 30 days for chart
   function getLast30Days() {
@@ -574,6 +1245,14 @@ function App() {
           color: 'var(--on-primary)',
           letterSpacing: '-1px',
         }}>Fretboard-King</h1>
+        <ProfilePicker
+          profiles={profileList.profiles}
+          activeId={profileList.activeId}
+          onSwitch={(id) => updateProfiles({ ...profileList, activeId: id })}
+          onCreate={(name) => updateProfiles(createProfile(rootStorage, profileList, name))}
+          onRename={(id, name) => updateProfiles(renameProfile(profileList, id, name))}
+          onDelete={handleProfileDelete}
+        />
       </header>
       
       {/* Tabs Navigation */}
@@ -582,7 +1261,12 @@ function App() {
         onTabChange={setActiveTab}
         tabs={[
           { id: 'play', label: 'Play', icon: '🎸' },
-          { id: 'map', label: 'Level Map', icon: '🗺️' }
+          { id: 'map', label: 'Level Map', icon: '🗺️' },
+          { id: 'scales', label: 'Scales', icon: '🎼' },
+          { id: 'heatmap', label: 'Heatmap', icon: '🔥' },
+          { id: 'stats', label: 'Stats', icon: '📈' },
+          { id: 'curricula', label: 'Curricula', icon: '📚' },
+          { id: 'achievements', label: 'Achievements', icon: '🏅' }
         ]}
       />
       
@@ -602,13 +1286,23 @@ function App() {
         <span>Total Score: <b style={{ color: 'var(--secondary)' }}>{score}</b></span>
         {roundActive && (
           <>
-            <span>Round: <b style={{ color: 'var(--primary)' }}>{roundScore}/{questionsInRound}/{QUESTIONS_PER_ROUND}</b></span>
-            {practicingLevel !== playerLevel && (
-              <span style={{ color: 'var(--secondary)', fontSize: 14 }}>🎯 Practicing Level {practicingLevel}</span>
+            <span>Round: <b style={{ color: 'var(--primary)' }}>{round.correct}/{round.questionNum}/{round.questionCount}</b></span>
+            <span>Points: <b style={{ color: 'var(--secondary)' }}>{round.points}</b></span>
+            {round.streak >= 2 && (
+              <span style={{ color: '#FFD700' }}>🔥 {round.streak} in a row (×{getStreakMultiplier(round.streak)})</span>
+            )}
+            {round.level !== playerLevel && (
+              <span style={{ color: 'var(--secondary)', fontSize: 14 }}>🎯 Practicing Level {round.level}</span>
             )}
           </>
         )}
         <span style={{ color: '#888', fontSize: 14 }}>Yesterday: {yesterdayScore}</span>
+        <span style={{ fontSize: 14 }} title="Daily goal">
+          🎯 {getGoalProgress(getTodayProgress(achievements, todayStr()), settings.dailyGoal)}/{settings.dailyGoal.target}
+        </span>
+        {getCurrentStreak(achievements, todayStr()) > 0 && (
+          <span style={{ fontSize: 14 }} title="Practice streak">📆 {getCurrentStreak(achievements, todayStr())}-day streak</span>
+        )}
       </div>
       {/* Play Tab Content */}
       {activeTab === 'play' && (
@@ -620,22 +1314,54 @@ function App() {
             marginBottom: theme.spacing(1),
           }}>
             {(() => {
-              const levelToShow = roundActive ? practicingLevel : playerLevel;
-              const constraints = getLevelConstraints(levelToShow);
-              const stringCount = 6 - constraints.minString; // Count from minString to string 5 (6th string)
-              const fretCount = constraints.maxFret + 1; // Including open string for display
-              if (isRepetitionLevel(levelToShow)) {
+              const levelToShow = roundActive ? round.level : playerLevel;
+              if (roundActive && round.plan?.kind === 'window') {
+                const windowLevel = getWindowLevel(round.plan.window);
+                return `🪟 Fret window: ${describeLevel(windowLevel, tuningStrings.length)} (${windowLevel.passScore}/${windowLevel.questions} to pass)`;
+              }
+              let unlocked: string;
+              if (track === 'intervals') {
+                const constraints = getIntervalLevelConstraints(levelToShow);
+                unlocked = `${constraints.name}: ${constraints.intervals.map((i) => INTERVAL_NAMES[i % 12]).join(', ')}`;
+              } else if (track === 'chords') {
+                unlocked = getChordLevelConstraints(levelToShow).name;
+              } else {
+                unlocked = describeLevel(getNoteLevel(levelToShow), tuningStrings.length);
+              }
+              const { questions, passScore } = getRoundRules(levelToShow);
+              if (curriculum?.levels[levelToShow]?.review) {
+                return `🔄 Review Level ${levelToShow} of ${curriculum.name} | ${unlocked} (Need ${passScore}/${questions} to level up)`;
+              }
+              if (!curriculum && isRepetitionLevel(levelToShow)) {
                 const range = getRepetitionLevelRange(levelToShow);
-                return `🔄 Repetition Level ${levelToShow} - Testing knowledge from levels ${range.start}-${range.end} | ${stringCount} string${stringCount > 1 ? 's' : ''}, ${fretCount} fret${fretCount > 1 ? 's' : ''} (Need ${getRequiredScoreForLevel()}/${QUESTIONS_PER_ROUND} to level up)`;
+                return `🔄 Repetition Level ${levelToShow} - Testing knowledge from levels ${range.start}-${range.end} | ${unlocked} (Need ${passScore}/${questions} to level up)`;
               }
-              return `${roundActive && practicingLevel !== playerLevel ? `Practicing Level ${levelToShow} - ` : ''}Unlocked: ${stringCount} string${stringCount > 1 ? 's' : ''}, ${fretCount} fret${fretCount > 1 ? 's' : ''} (Need ${getRequiredScoreForLevel()}/${QUESTIONS_PER_ROUND} to level up)`;
+              return `${roundActive && round.level !== playerLevel ? `Practicing Level ${levelToShow} - ` : ''}Unlocked: ${unlocked} (Need ${passScore}/${questions} to level up)`;
             })()}
           </div>
+          {fretWindow && !roundActive && (
+            <FretRangeSlider
+              fretCount={fretCount}
+              minFret={Math.min(fretWindow.minFret, fretCount)}
+              maxFret={Math.min(fretWindow.maxFret, fretCount)}
+              onChange={(minFret, maxFret) => setSettings((s) => ({ ...s, fretWindow: { ...s.fretWindow, minFret, maxFret } }))}
+            />
+          )}
           <Fretboard
-            highlight={{ stringIdx: quiz.stringIdx, fretIdx: quiz.fretIdx }}
+            strings={tuningStrings}
+            fretCount={fretCount}
+            highlight={settings.quizMode === 'locate' || track !== 'notes' ? undefined : { stringIdx: quiz.stringIdx, fretIdx: quiz.fretIdx }}
+            marks={isLocating ? locateMarks : track === 'intervals' ? intervalMarks : track === 'chords' ? chordMarks : []}
             showStringNames={settings.showStringNames && !roundActive}
             fretboardColor={settings.fretboardColor}
             noteNaming={settings.noteNaming}
+            spelling={spelling}
+            onCellSelect={isLocating ? handleSelect : undefined}
+            isDimmed={locateCells
+              ? (p) => !locateCells.some((c) => isSamePosition(c, p))
+              : fretWindow
+                ? (p) => !fretWindow.strings.includes(p.stringIdx) || p.fretIdx < fretWindow.minFret || p.fretIdx > fretWindow.maxFret
+                : undefined}
           />
           
           {/* Round Controls */}
@@ -645,7 +1371,7 @@ function App() {
             gap: 16,
             margin: `${theme.spacing(2)} 0`,
           }}>
-            {!roundActive ? (
+            {!roundActive && (
               <button
                 onClick={() => startRound()}
                 style={{
@@ -663,9 +1389,50 @@ function App() {
                 onMouseOver={e => (e.currentTarget.style.background = 'var(--secondary)')}
                 onMouseOut={e => (e.currentTarget.style.background = 'var(--primary)')}
               >
-                🎯 Start Round (15 questions)
+                🎯 Start Round ({getRoundRules(playerLevel).questions} questions)
+              </button>
+            )}
+            {!roundActive && (track === 'notes' || track === 'ear') && (
+              <button
+                onClick={() => startRound(undefined, { kind: 'review', positions: duePositions.slice(0, getRoundRules(playerLevel).questions) })}
+                disabled={duePositions.length === 0}
+                title={duePositions.length === 0 ? 'Nothing is due - come back tomorrow' : undefined}
+                style={{
+                  padding: '12px 24px',
+                  fontSize: 18,
+                  background: 'var(--surface)',
+                  color: 'var(--on-surface)',
+                  border: '1px solid var(--border)',
+                  borderRadius: 'var(--radius)',
+                  cursor: duePositions.length === 0 ? 'default' : 'pointer',
+                  opacity: duePositions.length === 0 ? 0.6 : 1,
+                  fontWeight: 600,
+                  boxShadow: 'var(--shadow)',
+                }}
+              >
+                📅 Daily review ({duePositions.length} due)
               </button>
-            ) : (
+            )}
+            {!roundActive && isNoteTrack && (
+              <button
+                onClick={() => setWindowOpen((open) => !open)}
+                aria-pressed={windowOpen}
+                style={{
+                  padding: '12px 24px',
+                  fontSize: 18,
+                  background: windowOpen ? 'var(--secondary)' : 'var(--surface)',
+                  color: windowOpen ? 'var(--on-primary)' : 'var(--on-surface)',
+                  border: '1px solid var(--border)',
+                  borderRadius: 'var(--radius)',
+                  cursor: 'pointer',
+                  fontWeight: 600,
+                  boxShadow: 'var(--shadow)',
+                }}
+              >
+                🪟 Fret window
+              </button>
+            )}
+            {roundActive && (
               <button
                 onClick={stopRound}
                 style={{
@@ -683,9 +1450,72 @@ function App() {
               >
                 🛑 Stop Round
               </button>
-        )}
+            )}
       </div>
 
+          {/* Fret window practice: drag the handles over the fretboard, pick the strings */}
+          {fretWindow && !roundActive && (
+            <div style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              justifyContent: 'center',
+              alignItems: 'center',
+              gap: 16,
+              marginBottom: theme.spacing(2),
+              fontSize: 14,
+              color: 'var(--on-surface)',
+            }}>
+              <span>
+                Strings:{' '}
+                {tuningStrings.map((_, stringIdx) => (
+                  <label key={stringIdx} style={{ marginRight: 6 }}>
+                    <input
+                      type="checkbox"
+                      checked={fretWindow.strings.includes(stringIdx)}
+                      onChange={() => setSettings((s) => {
+                        const strings = s.fretWindow.strings.includes(stringIdx)
+                          ? s.fretWindow.strings.filter((i) => i !== stringIdx)
+                          : [...s.fretWindow.strings, stringIdx].sort((a, b) => a - b);
+                        return strings.length > 0 ? { ...s, fretWindow: { ...s.fretWindow, strings } } : s;
+                      })}
+                    />
+                    {stringIdx + 1}
+                  </label>
+                ))}
+              </span>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={settings.movingWindow}
+                  onChange={() => setSettings((s) => ({ ...s, movingWindow: !s.movingWindow }))}
+                />
+                {' '}Moving window (one fret up after each round)
+              </label>
+              <button
+                onClick={() => startRound(undefined, {
+                  kind: 'window',
+                  window: {
+                    minFret: Math.min(fretWindow.minFret, fretCount),
+                    maxFret: Math.min(fretWindow.maxFret, fretCount),
+                    strings: fretWindow.strings.filter((i) => i < tuningStrings.length),
+                  },
+                })}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: 16,
+                  background: 'var(--primary)',
+                  color: 'var(--on-primary)',
+                  border: 'none',
+                  borderRadius: 'var(--radius)',
+                  cursor: 'pointer',
+                  fontWeight: 600,
+                }}
+              >
+                🪟 Start window round (frets {Math.min(fretWindow.minFret, fretCount)}-{Math.min(fretWindow.maxFret, fretCount)})
+              </button>
+            </div>
+          )}
+
       <main style={{ margin: `${theme.spacing(3)} 0` }}>
         {roundActive ? (
           <>
@@ -696,40 +1526,159 @@ function App() {
               fontWeight: 500,
               color: 'var(--on-primary)',
             }}>
-              Which note is this? <b style={{ color: 'var(--primary)' }}>({timer})</b>
-            </div>
-            <div style={{
-              display: 'flex',
-              gap: 24,
-              justifyContent: 'center',
-              flexWrap: 'wrap',
-            }}>
-              {quiz.options.map((opt) => (
-                <button
-                  key={opt}
-                  onClick={() => handleSelect(opt)}
-                  disabled={selected !== null}
-                  style={{
-                    padding: '16px 36px',
-                    fontSize: 22,
-                    background: selected === opt
-                      ? (opt === quiz.correctNote ? 'var(--secondary)' : 'var(--error)')
-                      : 'var(--surface)',
-                    color: 'var(--on-primary)',
-                    border: 'none',
-                    borderRadius: 'var(--radius)',
-                    cursor: selected === null ? 'pointer' : 'default',
-                    opacity: selected !== null && selected !== opt ? 0.7 : 1,
-                    boxShadow: selected === opt ? '0 2px 12px #0004' : 'none',
-                    fontWeight: 500,
-                    marginBottom: 8,
-                    transition: 'background 0.2s, box-shadow 0.2s',
-                  }}
-                >
-                  {convertNoteToDisplay(opt, settings.noteNaming)}
-                </button>
-              ))}
+              {micListening ? (
+                <>
+                  🎤 Play {settings.quizMode === 'locate'
+                    ? <b style={{ color: 'var(--primary)' }}>{convertNoteToDisplay(quiz.correctNote, settings.noteNaming, spelling)}</b>
+                    : 'the highlighted note'}
+                  {' '}<b style={{ color: 'var(--primary)' }}>({timer})</b>
+                  <div style={{ fontSize: 16, color: micError ? 'var(--error)' : '#888', marginTop: 6 }}>
+                    {micError ?? (heardMidi !== null
+                      ? `Hearing ${convertNoteToDisplay(NOTE_NAMES[heardMidi % 12], settings.noteNaming, spelling)}${Math.floor(heardMidi / 12) - 1}`
+                      : 'Listening...')}
+                  </div>
+                </>
+              ) : track === 'ear' ? (
+                <>
+                  🎧 {settings.earExactPosition ? 'Where on the fretboard was that note played?' : 'Which note did you hear?'}
+                  {' '}<b style={{ color: 'var(--primary)' }}>({timer})</b>
+                  <button
+                    onClick={() => playNotes([quiz])}
+                    style={{
+                      marginLeft: 16,
+                      padding: '6px 14px',
+                      fontSize: 16,
+                      background: 'var(--surface)',
+                      color: 'var(--on-surface)',
+                      border: '1px solid var(--border)',
+                      borderRadius: 'var(--radius)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    🔁 Play again
+                  </button>
+                </>
+              ) : isLocating ? (
+                <>
+                  {settings.locateOnString
+                    ? <>Find <b style={{ color: 'var(--primary)' }}>{convertNoteToDisplay(quiz.correctNote, settings.noteNaming, spelling)}</b> on string {quiz.stringIdx + 1}</>
+                    : <>Find every <b style={{ color: 'var(--primary)' }}>{convertNoteToDisplay(quiz.correctNote, settings.noteNaming, spelling)}</b> ({foundPositions.length}/{locateTargets.length})</>}
+                  {' '}<b style={{ color: 'var(--primary)' }}>({timer})</b>
+                </>
+              ) : track === 'intervals' ? (
+                <>Which interval is this, from R up to ?? <b style={{ color: 'var(--primary)' }}>({timer})</b></>
+              ) : track === 'chords' ? (
+                chordQuiz.question === 'name'
+                  ? <>Which chord is this? <b style={{ color: 'var(--primary)' }}>({timer})</b></>
+                  : <>In <b style={{ color: 'var(--primary)' }}>{getChordSymbol(getChordKey(chordQuiz.root, chordQuiz.quality), settings.noteNaming, spelling)}</b>, which chord tone is ?? <b style={{ color: 'var(--primary)' }}>({timer})</b></>
+              ) : (
+                <>Which note is this? <b style={{ color: 'var(--primary)' }}>({timer})</b></>
+              )}
             </div>
+            {track === 'intervals' && (
+              <div style={{
+                display: 'flex',
+                gap: 24,
+                justifyContent: 'center',
+                flexWrap: 'wrap',
+              }}>
+                {intervalQuiz.options.map((opt) => (
+                  <button
+                    key={opt}
+                    title={INTERVAL_LABELS[opt]}
+                    onClick={() => handleSelect({ interval: opt })}
+                    disabled={selected !== null}
+                    style={{
+                      padding: '16px 36px',
+                      fontSize: 22,
+                      background: selected === opt
+                        ? (opt === intervalQuiz.correctInterval ? 'var(--secondary)' : 'var(--error)')
+                        : 'var(--surface)',
+                      color: 'var(--on-primary)',
+                      border: 'none',
+                      borderRadius: 'var(--radius)',
+                      cursor: selected === null ? 'pointer' : 'default',
+                      opacity: selected !== null && selected !== opt ? 0.7 : 1,
+                      boxShadow: selected === opt ? '0 2px 12px #0004' : 'none',
+                      fontWeight: 500,
+                      marginBottom: 8,
+                      transition: 'background 0.2s, box-shadow 0.2s',
+                    }}
+                  >
+                    {opt}
+                  </button>
+                ))}
+              </div>
+            )}
+            {track === 'chords' && (
+              <div style={{
+                display: 'flex',
+                gap: 24,
+                justifyContent: 'center',
+                flexWrap: 'wrap',
+              }}>
+                {chordQuiz.options.map((opt) => (
+                  <button
+                    key={opt}
+                    onClick={() => handleSelect({ chord: opt })}
+                    disabled={selected !== null}
+                    style={{
+                      padding: '16px 36px',
+                      fontSize: 22,
+                      background: selected === opt
+                        ? (opt === chordQuiz.correctAnswer ? 'var(--secondary)' : 'var(--error)')
+                        : 'var(--surface)',
+                      color: 'var(--on-primary)',
+                      border: 'none',
+                      borderRadius: 'var(--radius)',
+                      cursor: selected === null ? 'pointer' : 'default',
+                      opacity: selected !== null && selected !== opt ? 0.7 : 1,
+                      boxShadow: selected === opt ? '0 2px 12px #0004' : 'none',
+                      fontWeight: 500,
+                      marginBottom: 8,
+                      transition: 'background 0.2s, box-shadow 0.2s',
+                    }}
+                  >
+                    {chordQuiz.question === 'name' ? getChordSymbol(opt, settings.noteNaming, spelling) : opt}
+                  </button>
+                ))}
+              </div>
+            )}
+            {!isLocating && !micListening && (track === 'notes' || track === 'ear') && (
+              <div style={{
+                display: 'flex',
+                gap: quiz.options.length > 4 ? 12 : 24,
+                justifyContent: 'center',
+                flexWrap: 'wrap',
+              }}>
+                {quiz.options.map((opt) => (
+                  <button
+                    key={opt}
+                    onClick={() => handleSelect({ note: opt })}
+                    disabled={selected !== null}
+                    style={{
+                      // Smaller buttons when many options share the row
+                      padding: quiz.options.length > 4 ? '12px 20px' : '16px 36px',
+                      fontSize: 22,
+                      background: selected === opt
+                        ? (opt === quiz.correctNote ? 'var(--secondary)' : 'var(--error)')
+                        : 'var(--surface)',
+                      color: 'var(--on-primary)',
+                      border: 'none',
+                      borderRadius: 'var(--radius)',
+                      cursor: selected === null ? 'pointer' : 'default',
+                      opacity: selected !== null && selected !== opt ? 0.7 : 1,
+                      boxShadow: selected === opt ? '0 2px 12px #0004' : 'none',
+                      fontWeight: 500,
+                      marginBottom: 8,
+                      transition: 'background 0.2s, box-shadow 0.2s',
+                    }}
+                  >
+                    {convertOptionToDisplay(opt, settings.noteNaming, spelling)}
+                  </button>
+                ))}
+              </div>
+            )}
           </>
         ) : (
           <div style={{
@@ -739,9 +1688,20 @@ function App() {
             color: 'var(--on-surface)',
             padding: theme.spacing(4),
           }}>
-            {feedback?.includes('Round completed') ? feedback : 'Click "Start Round" to begin a new 15-question challenge!'}
+            {feedback?.includes('Round completed') ? feedback : `Click "Start Round" to begin a new ${getRoundRules(playerLevel).questions}-question challenge!`}
           </div>
         )}
+        {round.phase === 'summary' && roundLog.length > 0 && (
+          <RoundSummary
+            log={roundLog}
+            strings={tuningStrings}
+            fretCount={fretCount}
+            noteNaming={settings.noteNaming}
+            spelling={spelling}
+            fretboardColor={settings.fretboardColor}
+            onRetryMisses={retryMisses}
+          />
+        )}
         {feedback && roundActive && (
           <div style={{
             marginTop: 16,
@@ -769,12 +1729,71 @@ function App() {
         }}>
           <LevelMap 
             currentLevel={playerLevel} 
-            maxLevel={MAX_LEVEL}
+            maxLevel={maxLevel}
+            baseMaxLevel={baseMaxLevel}
+            curriculum={curriculum}
             onLevelClick={handleLevelClick}
           />
         </div>
       )}
 
+      {/* Heatmap Tab Content */}
+      {activeTab === 'heatmap' && (
+        <div style={{ padding: `${theme.spacing(4)} 0` }}>
+          <MasteryHeatmap
+            strings={tuningStrings}
+            fretCount={fretCount}
+            mastery={mastery}
+            noteNaming={settings.noteNaming}
+            spelling={spelling}
+            fretboardColor={settings.fretboardColor}
+          />
+        </div>
+      )}
+
+      {/* Curricula Tab Content */}
+      {activeTab === 'curricula' && (
+        <div style={{ padding: `${theme.spacing(4)} 0` }}>
+          <CurriculumEditor
+            curricula={Object.values(curricula)}
+            activeId={settings.curriculumId}
+            builtInLevels={getBuiltInLevels(tuningStrings.length, fretCount)}
+            stringCount={tuningStrings.length}
+            fretCount={fretCount}
+            onSelect={(curriculumId) => setSettings((s) => ({ ...s, curriculumId }))}
+            onSave={(saved) => setCurricula((c) => ({ ...c, [saved.id]: saved }))}
+            onDelete={(id) => setCurricula((c) => Object.fromEntries(Object.entries(c).filter(([key]) => key !== id)))}
+          />
+        </div>
+      )}
+
+      {/* Stats Tab Content */}
+      {activeTab === 'stats' && (
+        <div style={{ padding: `${theme.spacing(4)} 0` }}>
+          <StatsDashboard history={history} answers={loggedAnswers} today={todayStr()} />
+        </div>
+      )}
+
+      {/* Achievements Tab Content */}
+      {activeTab === 'achievements' && (
+        <div style={{ padding: `${theme.spacing(4)} 0` }}>
+          <Achievements state={achievements} goal={settings.dailyGoal} today={todayStr()} />
+        </div>
+      )}
+
+      {/* Scales Tab Content */}
+      {activeTab === 'scales' && (
+        <div style={{ padding: `${theme.spacing(4)} 0` }}>
+          <ScaleExplorer
+            strings={tuningStrings}
+            fretCount={fretCount}
+            noteNaming={settings.noteNaming}
+            spelling={spelling}
+            fretboardColor={settings.fretboardColor}
+          />
+        </div>
+      )}
+
       {/* Settings Modal */}
       {settingsOpen && (
         <div
@@ -867,6 +1886,18 @@ function App() {
                 />
                 <span style={{ fontWeight: 600 }}>{settings.baseTimer}s</span>
               </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Neck length (frets):
+                <input
+                  type="range"
+                  min={FRETS}
+                  max={MAX_FRETS}
+                  value={fretCount}
+                  onChange={handleFretCountChange}
+                  style={{ marginLeft: 10, marginRight: 10 }}
+                />
+                <span style={{ fontWeight: 600 }}>{fretCount}</span>
+              </label>
               <label style={{ display: 'block', marginBottom: 10, fontSize: 16 }}>
                 <input
                   type="checkbox"
@@ -874,8 +1905,136 @@ function App() {
                   onChange={handleAdaptiveTimingToggle}
                   style={{ marginRight: 10 }}
                 />
-                Adaptive timing (adjust based on performance)
+                Adaptive timing (adjust to your reaction times)
+              </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Daily goal:
+                <input
+                  type="number"
+                  min="1"
+                  max="999"
+                  value={settings.dailyGoal.target}
+                  onChange={handleDailyGoalTargetChange}
+                  style={{
+                    marginLeft: 10,
+                    width: 64,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                  }}
+                />
+                <select
+                  value={settings.dailyGoal.type}
+                  onChange={handleDailyGoalTypeChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <option value="questions">questions answered</option>
+                  <option value="rounds">rounds passed</option>
+                </select>
               </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Quiz mode:
+                <select
+                  value={settings.quizMode}
+                  onChange={handleQuizModeChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <option value="identify">Name the note</option>
+                  <option value="locate">Find the note on the fretboard</option>
+                  <option value="interval">Interval training</option>
+                  <option value="chord">Chord & triad drills</option>
+                  <option value="ear">Ear training</option>
+                </select>
+              </label>
+              {settings.quizMode === 'locate' && (
+                <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                  <input
+                    type="checkbox"
+                    checked={settings.locateOnString}
+                    onChange={handleLocateOnStringToggle}
+                    style={{ marginRight: 10 }}
+                  />
+                  Ask for the note on one string
+                </label>
+              )}
+              {(settings.quizMode === 'identify' || settings.quizMode === 'locate') && (
+                <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                  <input
+                    type="checkbox"
+                    checked={settings.micAnswer}
+                    onChange={handleMicAnswerToggle}
+                    style={{ marginRight: 10 }}
+                  />
+                  Answer by playing the note (microphone)
+                </label>
+              )}
+              {settings.quizMode === 'ear' && (
+                <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                  <input
+                    type="checkbox"
+                    checked={settings.earExactPosition}
+                    onChange={handleEarExactPositionToggle}
+                    style={{ marginRight: 10 }}
+                  />
+                  Answer with the exact string and fret
+                </label>
+              )}
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Play notes:
+                <select
+                  value={settings.playback}
+                  onChange={handlePlaybackChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <option value="question">When the question appears</option>
+                  <option value="answer">After answering</option>
+                  <option value="off">Off</option>
+                </select>
+              </label>
+              {(settings.playback !== 'off' || settings.quizMode === 'ear') && (
+                <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                  Volume:
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={settings.volume}
+                    onChange={handleVolumeChange}
+                    style={{ marginLeft: 10, marginRight: 10 }}
+                  />
+                  <span style={{ fontWeight: 600 }}>{settings.volume}%</span>
+                </label>
+              )}
               <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
                 Note naming:
                 <select
@@ -895,8 +2054,181 @@ function App() {
                   <option value="US">US (A, A#, B)</option>
                   <option value="German">German (A, B, H)</option>
                   <option value="Mixed">Mixed (A, B/A#, H/B)</option>
+                  <option value="Solfege">Solfège (Do, Re, Mi)</option>
+                </select>
+              </label>
+              {settings.noteNaming === 'Solfege' && (
+                <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                  Solfège:
+                  <select
+                    value={settings.solfege}
+                    onChange={handleSolfegeChange}
+                    style={{
+                      marginLeft: 10,
+                      padding: '4px 8px',
+                      fontSize: 16,
+                      background: 'var(--surface)',
+                      color: 'var(--on-surface)',
+                      border: '1px solid var(--border)',
+                      borderRadius: 'var(--radius)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <option value="fixed">Fixed Do (Do is always C)</option>
+                    <option value="movable">Movable Do (Do is the key's tonic)</option>
+                  </select>
+                </label>
+              )}
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Accidentals:
+                <select
+                  value={settings.accidentals}
+                  onChange={handleAccidentalsChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <option value="sharp">Sharps (C#, D#)</option>
+                  <option value="flat">Flats (Db, Eb)</option>
+                  <option value="both">Both (C#/Db)</option>
+                  <option value="key">As in the key</option>
+                </select>
+              </label>
+              {(settings.accidentals === 'key' || (settings.noteNaming === 'Solfege' && settings.solfege === 'movable')) && (
+                <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                  Key:
+                  <select
+                    value={settings.keySignature}
+                    onChange={handleKeySignatureChange}
+                    style={{
+                      marginLeft: 10,
+                      padding: '4px 8px',
+                      fontSize: 16,
+                      background: 'var(--surface)',
+                      color: 'var(--on-surface)',
+                      border: '1px solid var(--border)',
+                      borderRadius: 'var(--radius)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {NOTE_NAMES.map((n) => (
+                      <option key={n} value={n}>{getKeyName(n)} major</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                <input
+                  type="checkbox"
+                  checked={settings.enharmonicTraps}
+                  onChange={handleEnharmonicTrapsChange}
+                  style={{ marginRight: 10 }}
+                />
+                Enharmonic traps (offer the right note under a wrong spelling)
+              </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Wrong options:
+                <select
+                  value={settings.distractors}
+                  onChange={handleDistractorsChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {(Object.keys(DISTRACTOR_LABELS) as DistractorStrategy[]).map((strategy) => (
+                    <option key={strategy} value={strategy}>{DISTRACTOR_LABELS[strategy]}</option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Options per question:
+                <select
+                  value={settings.optionCount}
+                  onChange={handleOptionCountChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {OPTION_COUNTS.map((count) => (
+                    <option key={count} value={count}>{count === 12 ? 'All 12 notes' : count}</option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Instrument:
+                <select
+                  value={instrument.id}
+                  onChange={handleInstrumentChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {INSTRUMENT_PROFILES.map((profile) => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
                 </select>
               </label>
+              <label style={{ display: 'block', marginBottom: 14, fontSize: 16 }}>
+                Tuning:
+                <select
+                  value={settings.tuningId}
+                  onChange={handleTuningChange}
+                  style={{
+                    marginLeft: 10,
+                    padding: '4px 8px',
+                    fontSize: 16,
+                    background: 'var(--surface)',
+                    color: 'var(--on-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {instrument.tunings.map((preset) => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                  <option value={CUSTOM_TUNING_ID}>Custom…</option>
+                </select>
+              </label>
+              {settings.tuningId === CUSTOM_TUNING_ID && (
+                <TuningEditor
+                  strings={tuningStrings}
+                  noteNaming={settings.noteNaming}
+                  spelling={spelling}
+                  onChange={handleCustomTuningChange}
+                />
+              )}
+              <p style={{ fontSize: 12, color: '#888', margin: '0 0 14px 0' }}>
+                Level and scores are tracked separately for each instrument and tuning, and interval training, chord drills and ear training have their own.
+              </p>
               <div style={{ marginTop: 20, paddingTop: 20, borderTop: '1px solid var(--border)' }}>
                 <h4 style={{ margin: '0 0 10px 0', fontSize: 16, color: 'var(--on-surface)' }}>Level Progress</h4>
                 <p style={{ fontSize: 14, color: '#888', margin: '0 0 10px 0' }}>
@@ -922,6 +2254,64 @@ function App() {
                   Reset Level to 0
                 </button>
               </div>
+              <div style={{ marginTop: 20, paddingTop: 20, borderTop: '1px solid var(--border)' }}>
+                <h4 style={{ margin: '0 0 10px 0', fontSize: 16, color: 'var(--on-surface)' }}>Backup</h4>
+                <p style={{ fontSize: 14, color: '#888', margin: '0 0 10px 0' }}>
+                  Move this player's progress to another browser or device: export it to a file there, import the file here.
+                </p>
+                <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                  <button
+                    onClick={handleExportProgress}
+                    style={{
+                      padding: '8px 16px',
+                      fontSize: 14,
+                      background: 'var(--primary)',
+                      color: 'var(--on-primary)',
+                      border: 'none',
+                      borderRadius: 'var(--radius)',
+                      cursor: 'pointer',
+                      fontWeight: 600,
+                      boxShadow: 'var(--shadow)',
+                    }}
+                  >
+                    ⬇️ Export progress
+                  </button>
+                  <select
+                    value={importMode}
+                    onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                    style={{
+                      padding: '4px 8px',
+                      fontSize: 14,
+                      background: 'var(--surface)',
+                      color: 'var(--on-surface)',
+                      border: '1px solid var(--border)',
+                      borderRadius: 'var(--radius)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    <option value="merge">Merge with this player's progress</option>
+                    <option value="replace">Replace this player's progress</option>
+                  </select>
+                  <label
+                    style={{
+                      padding: '8px 16px',
+                      fontSize: 14,
+                      background: 'var(--surface)',
+                      color: 'var(--on-surface)',
+                      border: '1px solid var(--border)',
+                      borderRadius: 'var(--radius)',
+                      cursor: 'pointer',
+                      fontWeight: 600,
+                    }}
+                  >
+                    ⬆️ Import progress
+                    <input type="file" accept="application/json,.json" onChange={handleImportProgress} style={{ display: 'none' }} />
+                  </label>
+                </div>
+                {importError && (
+                  <p style={{ fontSize: 14, color: 'var(--error)', margin: '10px 0 0 0' }}>{importError}</p>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -930,9 +2320,9 @@ function App() {
   );
 
 // Simple SVG bar chart for last 30 days
-function BarChart({ history, getLast30Days, compact = false }: { history: { [date: string]: number }, getLast30Days: () => string[], compact?: boolean }) {
+function BarChart({ history, getLast30Days, compact = false }: { history: History, getLast30Days: () => string[], compact?: boolean }) {
   const days = getLast30Days();
-  const values = days.map((d) => history[d] || 0);
+  const values = days.map((d) => history[d]?.score ?? 0);
   const max = Math.max(1, ...values);
   return (
     <div style={{
@@ -974,138 +2364,4 @@ function BarChart({ history, getLast30Days, compact = false }: { history: { [dat
 }
 
 
-function Fretboard({ highlight, showStringNames = true, fretboardColor = '#222', noteNaming = 'US' }: {
-  highlight?: { stringIdx: number; fretIdx: number };
-  showStringNames?: boolean;
-  fretboardColor?: string;
-  noteNaming?: NoteNaming;
-}) {
-  // For each marked fret, render a dot only once, centered vertically
-  const markerFrets = [3, 5, 7, 9, 12];
-  return (
-    <div style={{
-      position: 'relative',
-      width: '95vw',
-      maxWidth: '1200px',
-      margin: '0 auto',
-      background: 'var(--surface)',
-      borderRadius: 'var(--radius)',
-      boxShadow: '0 2px 12px #0002',
-      padding: '18px 0 18px 0',
-      overflowX: 'auto',
-      transition: 'background 0.2s',
-    }}>
-      <table
-        className="fretboard"
-        style={{
-          borderCollapse: 'collapse',
-          width: '100%',
-          tableLayout: 'fixed',
-        }}
-      >
-        <tbody>
-          {STRINGS.map((string, sIdx) => (
-            <tr key={sIdx}>
-              {[...Array(FRETS + 1)].map((_, fIdx) => {
-                const isHighlight =
-                  highlight && sIdx === highlight.stringIdx && fIdx === highlight.fretIdx;
-                return (
-                  <td
-                    key={fIdx}
-                    style={{
-                      border: '1px solid var(--border)',
-                      width: fIdx === 0 ? 44 : 'auto',
-                      height: 44,
-                      background: isHighlight
-                        ? 'var(--primary)'
-                        : fIdx === 0
-                          ? 'var(--surface)'
-                          : fretboardColor,
-                      color: fIdx === 0 ? 'var(--on-primary)' : '#b0b0b0',
-                      textAlign: 'center',
-                      position: 'relative',
-                      padding: 0,
-                      fontWeight: fIdx === 0 ? 600 : 400,
-                      fontSize: fIdx === 0 ? 18 : 16,
-                      transition: 'background 0.2s',
-                    }}
-                  >
-                    {fIdx === 0 && showStringNames ? convertNoteToDisplay(string, noteNaming) : ''}
-                  </td>
-                );
-              })}
-            </tr>
-          ))}
-        </tbody>
-      </table>
-      {/* Render marker dots absolutely over the table, one per marked fret, two for 12th fret */}
-      {markerFrets.map((fret) => {
-        if (fret === 12) {
-          // 12th fret gets 2 dots at 1/3 and 2/3 positions
-          return (
-            <React.Fragment key={fret}>
-              <span
-                style={{
-                  position: 'absolute',
-                  left: `calc(${((fret) / (FRETS + 1)) * 100}% + 44px / 2)`, // 44px for string label col
-                  top: '33.33%',
-                  transform: 'translate(-50%, -50%)',
-                  width: 18,
-                  height: 18,
-                  borderRadius: '50%',
-                  background: '#fff',
-                  boxShadow: '0 0 4px #0006',
-                  opacity: 0.92,
-                  zIndex: 2,
-                  pointerEvents: 'none',
-                  transition: 'box-shadow 0.2s',
-                }}
-              />
-              <span
-                style={{
-                  position: 'absolute',
-                  left: `calc(${((fret) / (FRETS + 1)) * 100}% + 44px / 2)`, // 44px for string label col
-                  top: '66.67%',
-                  transform: 'translate(-50%, -50%)',
-                  width: 18,
-                  height: 18,
-                  borderRadius: '50%',
-                  background: '#fff',
-                  boxShadow: '0 0 4px #0006',
-                  opacity: 0.92,
-                  zIndex: 2,
-                  pointerEvents: 'none',
-                  transition: 'box-shadow 0.2s',
-                }}
-              />
-            </React.Fragment>
-          );
-        } else {
-          // All other frets get single centered dot
-          return (
-            <span
-              key={fret}
-              style={{
-                position: 'absolute',
-                left: `calc(${((fret) / (FRETS + 1)) * 100}% + 44px / 2)`, // 44px for string label col
-                top: '50%',
-                transform: 'translate(-50%, -50%)',
-                width: 18,
-                height: 18,
-                borderRadius: '50%',
-                background: '#fff',
-                boxShadow: '0 0 4px #0006',
-                opacity: 0.92,
-                zIndex: 2,
-                pointerEvents: 'none',
-                transition: 'box-shadow 0.2s',
-              }}
-            />
-          );
-        }
-      })}
-    </div>
-  );
-}
-
 export default App;
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAchievementState,
+  evaluateRound,
+  getCurrentStreak,
+  mergeAchievements,
+  type AchievementState,
+  type DailyGoal,
+  type RoundResult,
+} from './achievements';
+
+const GOAL: DailyGoal = { type: 'questions', target: 30 };
+
+function result(patch: Partial<RoundResult> = {}): RoundResult {
+  return {
+    date: '2026-03-10',
+    track: 'notes',
+    kind: 'regular',
+    curriculum: false,
+    questions: 15,
+    correct: 12,
+    passed: true,
+    level: 3,
+    baseMaxLevel: 26,
+    fastNotes: 0,
+    ...patch,
+  };
+}
+
+// Play rounds one after the other, returning the final state and what each round unlocked
+function play(results: RoundResult[], goal: DailyGoal = GOAL, state: AchievementState = createAchievementState()) {
+  const steps = [];
+  for (const r of results) {
+    const step = evaluateRound(state, r, goal);
+    state = step.state;
+    steps.push(step);
+  }
+  return { state, steps };
+}
+
+const unlockedIds = (steps: ReturnType<typeof play>['steps']) => steps.flatMap((s) => s.unlocked.map((b) => b.id));
+
+describe('streak', () => {
+  it('starts at one with the first round', () => {
+    expect(play([result()]).state).toMatchObject({ streak: 1, bestStreak: 1, lastPracticeDate: '2026-03-10' });
+  });
+
+  it('counts a day once, however many rounds are played', () => {
+    expect(play([result(), result(), result()]).state.streak).toBe(1);
+  });
+
+  it('grows on the next day', () => {
+    const { state } = play([result({ date: '2026-03-10' }), result({ date: '2026-03-11' }), result({ date: '2026-03-12' })]);
+    expect(state.streak).toBe(3);
+  });
+
+  it('resets after a missed day, keeping the best streak', () => {
+    const { state } = play([result({ date: '2026-03-10' }), result({ date: '2026-03-11' }), result({ date: '2026-03-13' })]);
+    expect(state.streak).toBe(1);
+    expect(state.bestStreak).toBe(2);
+  });
+
+  it('shows as broken from the second day without practice', () => {
+    const { state } = play([result({ date: '2026-03-10' })]);
+    expect(getCurrentStreak(state, '2026-03-10')).toBe(1);
+    expect(getCurrentStreak(state, '2026-03-11')).toBe(1);
+    expect(getCurrentStreak(state, '2026-03-12')).toBe(0);
+  });
+});
+
+describe('daily goal', () => {
+  it('is reached once per day', () => {
+    const { state, steps } = play([result(), result(), result()]);
+    expect(steps.map((s) => s.goalReached)).toEqual([false, true, false]);
+    expect(state.goalDays).toBe(1);
+  });
+
+  it('starts over the next day', () => {
+    const { state, steps } = play([result(), result(), result({ date: '2026-03-11' }), result({ date: '2026-03-11' })]);
+    expect(steps.map((s) => s.goalReached)).toEqual([false, true, false, true]);
+    expect(state.goalDays).toBe(2);
+  });
+
+  it('counts only passed rounds for a rounds goal', () => {
+    const goal: DailyGoal = { type: 'rounds', target: 2 };
+    const { steps } = play([result(), result({ passed: false }), result()], goal);
+    expect(steps.map((s) => s.goalReached)).toEqual([false, false, true]);
+  });
+});
+
+describe('badges', () => {
+  it('unlocks First Steps with the first round, once', () => {
+    const { state, steps } = play([result(), result()]);
+    expect(unlockedIds(steps).filter((id) => id === 'first-round')).toHaveLength(1);
+    expect(state.unlocked['first-round']).toBe('2026-03-10');
+  });
+
+  it('unlocks Flawless with a perfect round only', () => {
+    expect(unlockedIds(play([result({ correct: 14 })]).steps)).not.toContain('perfect-round');
+    expect(unlockedIds(play([result({ correct: 15 })]).steps)).toContain('perfect-round');
+  });
+
+  it('unlocks Grand Master for a passed regular note round at the end of the base ladder', () => {
+    expect(unlockedIds(play([result({ level: 26 })]).steps)).toContain('grand-master');
+    expect(unlockedIds(play([result({ level: 25 })]).steps)).not.toContain('grand-master');
+    expect(unlockedIds(play([result({ level: 26, passed: false })]).steps)).not.toContain('grand-master');
+  });
+
+  it('keeps Grand Master to regular note rounds', () => {
+    for (const track of ['intervals', 'chords', 'ear']) {
+      expect(unlockedIds(play([result({ level: 26, track })]).steps)).not.toContain('grand-master');
+    }
+    for (const kind of ['review', 'retry', 'window'] as const) {
+      expect(unlockedIds(play([result({ level: 26, kind })]).steps)).not.toContain('grand-master');
+    }
+    // The last level of a custom curriculum is not the end of the note ladder
+    expect(unlockedIds(play([result({ level: 1, baseMaxLevel: 1, curriculum: true })]).steps)).not.toContain('grand-master');
+  });
+
+  it('unlocks Lightning Fingers at 100 fast notes across rounds', () => {
+    const { steps } = play([result({ fastNotes: 60 }), result({ fastNotes: 39 }), result({ fastNotes: 1 })]);
+    expect(steps.map((s) => s.unlocked.some((b) => b.id === 'fast-100'))).toEqual([false, false, true]);
+  });
+
+  it('unlocks Week Warrior and Devoted with 7 and 30 day streaks', () => {
+    const days = Array.from({ length: 30 }, (_, i) => result({ date: `2026-03-${String(i + 1).padStart(2, '0')}` }));
+    const { steps } = play(days);
+    const dayOf = (id: string) => steps.findIndex((s) => s.unlocked.some((b) => b.id === id)) + 1;
+    expect(dayOf('streak-7')).toBe(7);
+    expect(dayOf('streak-30')).toBe(30);
+  });
+
+  it('unlocks Goal Getter on the 10th goal day', () => {
+    const goal: DailyGoal = { type: 'rounds', target: 1 };
+    const days = Array.from({ length: 10 }, (_, i) => result({ date: `2026-04-${String(i * 2 + 1).padStart(2, '0')}` }));
+    const { state, steps } = play(days, goal);
+    expect(state.goalDays).toBe(10);
+    expect(steps.findIndex((s) => s.unlocked.some((b) => b.id === 'goal-10'))).toBe(9);
+  });
+
+  it('unlocks Centurion with the 100th round', () => {
+    const { steps } = play(Array.from({ length: 100 }, () => result()));
+    expect(steps.findIndex((s) => s.unlocked.some((b) => b.id === 'rounds-100'))).toBe(99);
+  });
+
+  it('unlocks Well-Rounded once every track has been played', () => {
+    const tracks = ['notes', 'intervals', 'chords', 'ear'];
+    const { steps } = play(tracks.map((track) => result({ track })));
+    expect(steps.map((s) => s.unlocked.some((b) => b.id === 'all-tracks'))).toEqual([false, false, false, true]);
+  });
+
+  it('never unlocks a badge twice', () => {
+    const { steps } = play(Array.from({ length: 120 }, () => result({ correct: 15, fastNotes: 5 })));
+    const ids = unlockedIds(steps);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('mergeAchievements', () => {
+  const phone = play([result({ date: '2026-03-10', correct: 15 }), result({ date: '2026-03-11', track: 'chords' })]).state;
+  const laptop = play([result({ date: '2026-03-09' }), result({ date: '2026-03-12', fastNotes: 100 })]).state;
+
+  it('keeps the higher counters and every track of both', () => {
+    const merged = mergeAchievements(phone, laptop);
+    expect(merged).toMatchObject({ rounds: 2, perfectRounds: 1, fastNotes: 100 });
+    expect(merged.tracksPlayed.sort()).toEqual(['chords', 'notes']);
+  });
+
+  it('takes the streak and today of the side that practiced last', () => {
+    for (const merged of [mergeAchievements(phone, laptop), mergeAchievements(laptop, phone)]) {
+      expect(merged).toMatchObject({ lastPracticeDate: '2026-03-12', streak: 1, bestStreak: 2 });
+      expect(merged.today.date).toBe('2026-03-12');
+    }
+  });
+
+  it('unlocks the badges of both, each at its earlier date', () => {
+    const merged = mergeAchievements(phone, laptop);
+    expect(merged.unlocked).toMatchObject({ 'first-round': '2026-03-09', 'perfect-round': '2026-03-10', 'fast-100': '2026-03-12' });
+  });
+});
@@ -0,0 +1,172 @@
+import { addDays } from './spacedRepetition';
+
+// Consistency rewards: a daily goal, a practice streak and badges. Everything is derived from
+// completed rounds by evaluateRound, a pure function of the saved state and the round's result.
+
+export type DailyGoalType = 'questions' | 'rounds';
+
+export interface DailyGoal {
+  type: DailyGoalType; // Questions answered, or rounds passed
+  target: number;
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { type: 'questions', target: 45 };
+
+// A completed round, as the rules see it
+export interface RoundResult {
+  date: string; // YYYY-MM-DD
+  track: string; // Progress track: 'notes', 'intervals', 'chords' or 'ear'
+  kind: 'regular' | 'review' | 'retry' | 'window';
+  curriculum: boolean; // Played on a custom curriculum instead of the built-in ladder
+  questions: number;
+  correct: number;
+  passed: boolean;
+  level: number; // Level practiced
+  baseMaxLevel: number; // Last level of the track's base ladder (the end of Grand Master for notes)
+  fastNotes: number; // Note questions answered correctly in under FAST_NOTE_TIME
+}
+
+export const FAST_NOTE_TIME = 1000; // ms
+
+export interface AchievementState {
+  rounds: number;
+  perfectRounds: number;
+  fastNotes: number;
+  tracksPlayed: string[];
+  streak: number; // Consecutive days with a completed round, up to lastPracticeDate
+  bestStreak: number;
+  lastPracticeDate: string | null;
+  goalDays: number; // Days the daily goal was reached
+  today: { date: string; questions: number; roundsPassed: number };
+  unlocked: { [badgeId: string]: string }; // Date each badge was unlocked
+}
+
+export function createAchievementState(): AchievementState {
+  return {
+    rounds: 0,
+    perfectRounds: 0,
+    fastNotes: 0,
+    tracksPlayed: [],
+    streak: 0,
+    bestStreak: 0,
+    lastPracticeDate: null,
+    goalDays: 0,
+    today: { date: '', questions: 0, roundsPassed: 0 },
+    unlocked: {},
+  };
+}
+
+export interface Badge {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  // Unlock condition, checked after every round with the updated state
+  isEarned: (state: AchievementState, result: RoundResult) => boolean;
+}
+
+export const BADGES: Badge[] = [
+  { id: 'first-round', name: 'First Steps', icon: '👣', description: 'Complete your first round', isEarned: (s) => s.rounds >= 1 },
+  { id: 'perfect-round', name: 'Flawless', icon: '💎', description: 'Answer every question of a round correctly', isEarned: (s) => s.perfectRounds >= 1 },
+  {
+    id: 'grand-master',
+    name: 'Grand Master',
+    icon: '👑',
+    description: 'Clear the Grand Master levels of the note ladder',
+    isEarned: (_, r) => r.track === 'notes' && r.kind === 'regular' && !r.curriculum && r.passed && r.level >= r.baseMaxLevel,
+  },
+  { id: 'fast-100', name: 'Lightning Fingers', icon: '⚡', description: 'Name or find 100 notes correctly in under a second', isEarned: (s) => s.fastNotes >= 100 },
+  { id: 'streak-7', name: 'Week Warrior', icon: '📆', description: 'Practice 7 days in a row', isEarned: (s) => s.streak >= 7 },
+  { id: 'streak-30', name: 'Devoted', icon: '🔥', description: 'Practice 30 days in a row', isEarned: (s) => s.streak >= 30 },
+  { id: 'goal-10', name: 'Goal Getter', icon: '🎯', description: 'Reach your daily goal on 10 days', isEarned: (s) => s.goalDays >= 10 },
+  { id: 'rounds-100', name: 'Centurion', icon: '🏛️', description: 'Complete 100 rounds', isEarned: (s) => s.rounds >= 100 },
+  {
+    id: 'all-tracks',
+    name: 'Well-Rounded',
+    icon: '🎼',
+    description: 'Complete a round of notes, intervals, chords and ear training',
+    isEarned: (s) => ['notes', 'intervals', 'chords', 'ear'].every((t) => s.tracksPlayed.includes(t)),
+  },
+];
+
+// Today's counts, or zero counts if the saved ones are from an earlier day
+export function getTodayProgress(state: AchievementState, today: string): AchievementState['today'] {
+  return state.today.date === today ? state.today : { date: today, questions: 0, roundsPassed: 0 };
+}
+
+export function getGoalProgress(progress: AchievementState['today'], goal: DailyGoal): number {
+  return goal.type === 'questions' ? progress.questions : progress.roundsPassed;
+}
+
+export function isGoalMet(progress: AchievementState['today'], goal: DailyGoal): boolean {
+  return getGoalProgress(progress, goal) >= goal.target;
+}
+
+// The streak as of today: it survives until the end of the day after the last practice
+export function getCurrentStreak(state: AchievementState, today: string): number {
+  const { lastPracticeDate } = state;
+  return lastPracticeDate === today || lastPracticeDate === addDays(today, -1) ? state.streak : 0;
+}
+
+// Apply a completed round: update counters, today's goal progress and the streak, and unlock
+// the badges the round earned. Returns the new state and the badges unlocked by this round.
+export function evaluateRound(
+  state: AchievementState,
+  result: RoundResult,
+  goal: DailyGoal,
+): { state: AchievementState; unlocked: Badge[]; goalReached: boolean } {
+  const previousToday = getTodayProgress(state, result.date);
+  const today = {
+    date: result.date,
+    questions: previousToday.questions + result.questions,
+    roundsPassed: previousToday.roundsPassed + (result.passed ? 1 : 0),
+  };
+  const goalReached = !isGoalMet(previousToday, goal) && isGoalMet(today, goal);
+  const streak = state.lastPracticeDate === result.date
+    ? state.streak
+    : getCurrentStreak(state, result.date) + 1;
+
+  const next: AchievementState = {
+    ...state,
+    rounds: state.rounds + 1,
+    perfectRounds: state.perfectRounds + (result.correct === result.questions ? 1 : 0),
+    fastNotes: state.fastNotes + result.fastNotes,
+    tracksPlayed: state.tracksPlayed.includes(result.track) ? state.tracksPlayed : [...state.tracksPlayed, result.track],
+    streak,
+    bestStreak: Math.max(state.bestStreak, streak),
+    lastPracticeDate: result.date,
+    goalDays: state.goalDays + (goalReached ? 1 : 0),
+    today,
+  };
+  const unlocked = BADGES.filter((badge) => !(badge.id in state.unlocked) && badge.isEarned(next, result));
+  next.unlocked = { ...state.unlocked, ...Object.fromEntries(unlocked.map((badge) => [badge.id, result.date])) };
+  return { state: next, unlocked, goalReached };
+}
+
+// Combine the achievements of two devices (a merged progress import): the higher counters,
+// every track and badge of both (a badge at its earlier date), and the streak and today's
+// counts of the side that practiced last
+export function mergeAchievements(a: AchievementState, b: AchievementState): AchievementState {
+  const last = (b.lastPracticeDate ?? '') > (a.lastPracticeDate ?? '') ? b : a;
+  const streak = a.lastPracticeDate === b.lastPracticeDate ? Math.max(a.streak, b.streak) : last.streak;
+  const unlocked = { ...b.unlocked };
+  for (const [id, date] of Object.entries(a.unlocked)) {
+    if (!(id in unlocked) || date < unlocked[id]) unlocked[id] = date;
+  }
+  let today = b.today.date > a.today.date ? b.today : a.today;
+  if (a.today.date === b.today.date) {
+    today = { date: a.today.date, questions: Math.max(a.today.questions, b.today.questions), roundsPassed: Math.max(a.today.roundsPassed, b.today.roundsPassed) };
+  }
+  return {
+    rounds: Math.max(a.rounds, b.rounds),
+    perfectRounds: Math.max(a.perfectRounds, b.perfectRounds),
+    fastNotes: Math.max(a.fastNotes, b.fastNotes),
+    tracksPlayed: [...new Set([...a.tracksPlayed, ...b.tracksPlayed])],
+    streak,
+    bestStreak: Math.max(a.bestStreak, b.bestStreak, streak),
+    lastPracticeDate: last.lastPracticeDate,
+    goalDays: Math.max(a.goalDays, b.goalDays),
+    today,
+    unlocked,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryAnswerLog, type AnswerRecord } from './answerLog';
+
+function record(timestamp: number, profileId: string, scope: string = 'standard'): AnswerRecord {
+  return { timestamp, profileId, scope, mode: 'identify', cell: '0:1', correct: true, time: 1200 };
+}
+
+async function createLog(records: AnswerRecord[]) {
+  const log = createMemoryAnswerLog();
+  for (const r of records) await log.append(r);
+  return log;
+}
+
+describe('createMemoryAnswerLog', () => {
+  it('returns appended records oldest first', async () => {
+    const log = await createLog([record(1, 'default'), record(2, 'p1', 'intervals'), record(3, 'default')]);
+    expect((await log.getAll()).map((r) => r.timestamp)).toEqual([1, 2, 3]);
+  });
+
+  it('filters records by profile', async () => {
+    const log = await createLog([record(1, 'default'), record(2, 'p1', 'intervals'), record(3, 'default')]);
+    expect(await log.getAll('p1')).toEqual([record(2, 'p1', 'intervals')]);
+    expect(await log.getAll('p2')).toEqual([]);
+  });
+
+  it('clears the records of one profile', async () => {
+    const log = await createLog([record(1, 'default'), record(2, 'p1'), record(3, 'default')]);
+    await log.clear('default');
+    expect(await log.getAll()).toEqual([record(2, 'p1')]);
+  });
+
+  it('clears every record', async () => {
+    const log = await createLog([record(1, 'default'), record(2, 'p1')]);
+    await log.clear();
+    expect(await log.getAll()).toEqual([]);
+  });
+
+  it('prunes the records logged before a time', async () => {
+    const log = await createLog([record(1, 'default'), record(2, 'p1'), record(3, 'default')]);
+    await log.prune(2);
+    expect(await log.getAll()).toEqual([record(2, 'p1'), record(3, 'default')]);
+  });
+});
@@ -0,0 +1,116 @@
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+// Log of every answer given in a round. It grows with each question, so it lives in IndexedDB
+// rather than localStorage; an in-memory log with the same interface serves tests.
+
+export interface AnswerRecord {
+  timestamp: number; // ms since the epoch, when the answer was decided
+  profileId: string; // Player profile, see profiles.ts
+  scope: string; // Progress scope: track and tuning, see getProgressScope
+  mode: string; // Quiz mode
+  cell?: string; // 'stringIdx:fretIdx' of the asked cell, for note questions
+  correct: boolean;
+  time: number; // Response time in ms
+}
+
+export interface AnswerLog {
+  append(record: AnswerRecord): Promise<void>;
+  // Records of one profile, or of all profiles, oldest first
+  getAll(profileId?: string): Promise<AnswerRecord[]>;
+  // Delete the records of one profile, or all records
+  clear(profileId?: string): Promise<void>;
+  // Delete the records logged before `oldest` (ms since the epoch)
+  prune(oldest: number): Promise<void>;
+}
+
+export function createMemoryAnswerLog(): AnswerLog {
+  let records: AnswerRecord[] = [];
+  return {
+    append: async (record) => {
+      records.push(record);
+    },
+    getAll: async (profileId) => records.filter((r) => profileId === undefined || r.profileId === profileId),
+    clear: async (profileId) => {
+      records = records.filter((r) => profileId !== undefined && r.profileId !== profileId);
+    },
+    prune: async (oldest) => {
+      records = records.filter((r) => r.timestamp >= oldest);
+    },
+  };
+}
+
+const DB_VERSION = 2;
+const STORE = 'answers';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The database is opened on first use; every call fails if IndexedDB is unavailable
+export function createIndexedDbAnswerLog(dbName: string = 'fbk_answers'): AnswerLog {
+  let db: Promise<IDBDatabase> | null = null;
+  function open(): Promise<IDBDatabase> {
+    if (!db) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(STORE, { autoIncrement: true });
+        }
+        if (event.oldVersion < 2) {
+          // Answers logged before profiles belong to the first profile
+          const store = request.transaction!.objectStore(STORE);
+          if (store.indexNames.contains('scope')) store.deleteIndex('scope');
+          store.createIndex('profileId', 'profileId');
+          store.openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            if (cursor.value.profileId === undefined) cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+            cursor.continue();
+          };
+        }
+      };
+      db = promisify(request);
+    }
+    return db;
+  }
+  async function transact<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await open();
+    return promisify(run(database.transaction(STORE, mode).objectStore(STORE)));
+  }
+  return {
+    append: async (record) => {
+      await transact('readwrite', (store) => store.add(record));
+    },
+    getAll: (profileId) => transact('readonly', (store) => (
+      profileId === undefined ? store.getAll() : store.index('profileId').getAll(profileId)
+    )) as Promise<AnswerRecord[]>,
+    clear: async (profileId) => {
+      if (profileId === undefined) {
+        await transact('readwrite', (store) => store.clear());
+        return;
+      }
+      const keys = await transact('readonly', (store) => store.index('profileId').getAllKeys(profileId));
+      await Promise.all(keys.map((key) => transact('readwrite', (store) => store.delete(key))));
+    },
+    prune: async (oldest) => {
+      // Records are stored in the order they were logged, so the old ones come first
+      const database = await open();
+      const request = database.transaction(STORE, 'readwrite').objectStore(STORE).openCursor();
+      await new Promise<void>((resolve, reject) => {
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (cursor.value as AnswerRecord).timestamp >= oldest) {
+            resolve();
+            return;
+          }
+          cursor.delete();
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+  };
+}
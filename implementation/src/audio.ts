@@ -0,0 +1,59 @@
+// Plucked-string tones synthesized with the Karplus-Strong algorithm: a burst of noise fed
+// through a delay line one period long, averaged on every pass so it decays like a string.
+// Everything is rendered locally with Web Audio; no samples are loaded.
+
+const NOTE_DURATION = 1.6; // Seconds rendered per note
+const DECAY = 0.996; // Energy kept per pass through the delay line
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so the context is created on first use
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  if (audioContext.state === 'suspended') {
+    void audioContext.resume();
+  }
+  return audioContext;
+}
+
+function renderPluck(ctx: AudioContext, frequency: number): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const buffer = ctx.createBuffer(1, Math.floor(sampleRate * NOTE_DURATION), sampleRate);
+  const data = buffer.getChannelData(0);
+  // Averaging two neighbouring samples delays the loop by half a sample
+  const period = Math.max(2, Math.round(sampleRate / frequency - 0.5));
+  for (let i = 0; i < period && i < data.length; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  for (let i = period; i < data.length; i++) {
+    const before = i > period ? data[i - period - 1] : data[i - period];
+    data[i] = DECAY * 0.5 * (data[i - period] + before);
+  }
+  // Fade out the tail so the note doesn't end with a click
+  const fade = Math.floor(sampleRate * 0.05);
+  for (let i = 0; i < fade; i++) {
+    data[data.length - 1 - i] *= i / fade;
+  }
+  return buffer;
+}
+
+// Play notes one after another, `spacing` seconds apart (0 plays them together);
+// volume ranges from 0 to 1
+export function playPluckedNotes(frequencies: number[], volume: number, spacing: number = 0) {
+  if (volume <= 0 || frequencies.length === 0) return;
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  const gain = ctx.createGain();
+  // Scale down chords so the summed notes don't clip
+  gain.gain.value = spacing > 0 ? volume : volume / Math.sqrt(frequencies.length);
+  gain.connect(ctx.destination);
+  frequencies.forEach((frequency, i) => {
+    const source = ctx.createBufferSource();
+    source.buffer = renderPluck(ctx, frequency);
+    source.connect(gain);
+    source.start(ctx.currentTime + i * spacing);
+  });
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { CHORD_MAX_LEVEL, getChordKey, getRandomChordQuiz } from './chords';
+import { getNoteName } from './notes';
+
+// Seeded RNG (a linear congruential generator), so every run picks the same chords
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+}
+
+const TUNINGS = [
+  { name: 'guitar (standard)', strings: ['E', 'B', 'G', 'D', 'A', 'E'] },
+  { name: 'bass (standard)', strings: ['G', 'D', 'A', 'E'] },
+  { name: 'bass (Drop D)', strings: ['G', 'D', 'A', 'D'] },
+];
+
+describe('getRandomChordQuiz', () => {
+  for (const { name, strings } of TUNINGS) {
+    for (const fretCount of [12, 24]) {
+      it(`voices a chord at every level on ${name} with ${fretCount} frets`, () => {
+        const random = createRandom(strings.length * 100 + fretCount);
+        for (let level = 0; level <= CHORD_MAX_LEVEL; level++) {
+          for (let i = 0; i < 20; i++) {
+            const quiz = getRandomChordQuiz(level, strings, fretCount, random);
+            expect(quiz.voicing).toHaveLength(quiz.quality.intervals.length);
+            quiz.voicing.forEach((p) => {
+              expect(p.fretIdx).toBeGreaterThanOrEqual(0);
+              expect(p.fretIdx).toBeLessThanOrEqual(fretCount);
+            });
+            const rootPos = quiz.voicing.find((p) => p.tone === 0)!;
+            expect(getNoteName(strings[rootPos.stringIdx], rootPos.fretIdx)).toBe(quiz.root);
+            expect(quiz.options).toContain(quiz.correctAnswer);
+            expect(new Set(quiz.options).size).toBe(quiz.options.length);
+            if (quiz.question === 'name') expect(quiz.correctAnswer).toBe(getChordKey(quiz.root, quiz.quality));
+          }
+        }
+      });
+    }
+  }
+});
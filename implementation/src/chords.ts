@@ -0,0 +1,216 @@
+import { NOTE_NAMES, convertNoteToDisplay, getNoteName, type NoteNaming, type NoteSpelling } from './notes';
+import { getProgressionLevel, getRepetitionLevelAfterStep, getRepetitionLevelRange, isRepetitionLevel } from './levels';
+import { getStringOffsets } from './tunings';
+import type { FretPosition } from './components/Fretboard';
+
+export interface ChordQuality {
+  id: string;
+  name: string;
+  symbol: string; // Appended to the root in chord names, e.g. 'm' for Am
+  intervals: number[]; // Semitones above the root: root, 3rd, 5th (and 7th)
+}
+
+export const CHORD_QUALITIES: ChordQuality[] = [
+  { id: 'major', name: 'major', symbol: '', intervals: [0, 4, 7] },
+  { id: 'minor', name: 'minor', symbol: 'm', intervals: [0, 3, 7] },
+  { id: 'dim', name: 'diminished', symbol: 'dim', intervals: [0, 3, 6] },
+  { id: 'aug', name: 'augmented', symbol: 'aug', intervals: [0, 4, 8] },
+  { id: 'dom7', name: 'dominant 7th', symbol: '7', intervals: [0, 4, 7, 10] },
+  { id: 'maj7', name: 'major 7th', symbol: 'maj7', intervals: [0, 4, 7, 11] },
+  { id: 'min7', name: 'minor 7th', symbol: 'm7', intervals: [0, 3, 7, 10] },
+  { id: 'm7b5', name: 'half-diminished', symbol: 'm7b5', intervals: [0, 3, 6, 10] },
+];
+
+// Chord tone labels, indexed like a quality's intervals
+export const CHORD_TONES = ['R', '3', '5', '7'];
+
+// 'name': name the root and quality of the voicing; 'tone': say which chord tone a marked note is
+export type ChordQuestion = 'name' | 'tone';
+
+// Chord ladder steps: which qualities are voiced, whether inversions appear, and which
+// questions are asked. Major/minor triads in root position come first, then tones and
+// inversions, the remaining triads, and finally seventh chords.
+const CHORD_STEPS: { name: string; qualities: string[]; inversions: boolean; questions: ChordQuestion[] }[] = [
+  { name: 'Major & minor triads', qualities: ['major', 'minor'], inversions: false, questions: ['name'] },
+  { name: 'Triad tones', qualities: ['major', 'minor'], inversions: true, questions: ['tone'] },
+  { name: 'Triad inversions', qualities: ['major', 'minor'], inversions: true, questions: ['name'] },
+  { name: 'Diminished & augmented triads', qualities: ['major', 'minor', 'dim', 'aug'], inversions: true, questions: ['name', 'tone'] },
+  { name: 'Seventh chords', qualities: ['dom7', 'maj7', 'min7'], inversions: false, questions: ['name'] },
+  { name: 'Seventh chord tones', qualities: ['dom7', 'maj7', 'min7', 'm7b5'], inversions: true, questions: ['tone'] },
+  { name: 'All chords', qualities: CHORD_QUALITIES.map((q) => q.id), inversions: true, questions: ['name', 'tone'] },
+];
+
+export const CHORD_MAX_LEVEL = getRepetitionLevelAfterStep(CHORD_STEPS.length - 1);
+
+// Widest stretch (in frets) between the fretted notes of a voicing
+const MAX_FRET_SPAN = 4;
+
+// Constraints for a chord level; repetition levels combine the previous two levels
+export function getChordLevelConstraints(level: number): { name: string; qualities: string[]; inversions: boolean; questions: ChordQuestion[] } {
+  if (isRepetitionLevel(level)) {
+    const range = getRepetitionLevelRange(level);
+    const combined = [];
+    for (let i = range.start; i <= range.end; i++) {
+      if (!isRepetitionLevel(i)) {
+        combined.push(getChordLevelConstraints(i));
+      }
+    }
+    return {
+      name: [...new Set(combined.map((c) => c.name))].join(' + '),
+      qualities: [...new Set(combined.flatMap((c) => c.qualities))],
+      inversions: combined.some((c) => c.inversions),
+      questions: [...new Set(combined.flatMap((c) => c.questions))],
+    };
+  }
+  return CHORD_STEPS[Math.min(getProgressionLevel(level), CHORD_STEPS.length - 1)];
+}
+
+export function getChordQuality(qualityId: string): ChordQuality {
+  return CHORD_QUALITIES.find((q) => q.id === qualityId) ?? CHORD_QUALITIES[0];
+}
+
+// Chord answers are encoded as 'root:qualityId', e.g. 'A:minor'
+export function getChordKey(root: string, quality: ChordQuality): string {
+  return `${root}:${quality.id}`;
+}
+
+export function getChordSymbol(chordKey: string, naming: NoteNaming, spelling?: NoteSpelling): string {
+  const [root, qualityId] = chordKey.split(':');
+  return `${convertNoteToDisplay(root, naming, spelling)}${getChordQuality(qualityId).symbol}`;
+}
+
+// Sorted pitch classes of a chord, to tell apart chords that only differ in spelling
+function getPitchClasses(chordKey: string): string {
+  const [root, qualityId] = chordKey.split(':');
+  const rootIdx = NOTE_NAMES.indexOf(root);
+  return getChordQuality(qualityId).intervals.map((i) => (rootIdx + i) % 12).sort((a, b) => a - b).join(',');
+}
+
+export interface ChordTonePosition extends FretPosition {
+  tone: number; // Index into CHORD_TONES
+}
+
+// Close-position voicing on adjacent strings, one chord tone per string, starting from
+// `lowString` with the tone chosen by `inversion` at `startFret`; null if it doesn't fit the neck
+function getVoicing(
+  offsets: number[],
+  fretCount: number,
+  quality: ChordQuality,
+  inversion: number,
+  lowString: number,
+  startFret: number,
+  maxSpan: number,
+): ChordTonePosition[] | null {
+  const toneCount = quality.intervals.length;
+  if (lowString - toneCount + 1 < 0) return null;
+  const positions: ChordTonePosition[] = [];
+  let pitch = offsets[lowString] + startFret;
+  for (let i = 0; i < toneCount; i++) {
+    const stringIdx = lowString - i;
+    const tone = (inversion + i) % toneCount;
+    if (i > 0) {
+      const prevTone = (inversion + i - 1) % toneCount;
+      pitch += (quality.intervals[tone] - quality.intervals[prevTone] + 12) % 12;
+    }
+    const fretIdx = pitch - offsets[stringIdx];
+    if (fretIdx < 0 || fretIdx > fretCount) return null;
+    positions.push({ stringIdx, fretIdx, tone });
+  }
+  const fretted = positions.filter((p) => p.fretIdx > 0).map((p) => p.fretIdx);
+  if (fretted.length > 0 && Math.max(...fretted) - Math.min(...fretted) > maxSpan) return null;
+  return positions;
+}
+
+function getRandomInt(max: number, random: () => number) {
+  return Math.floor(random() * max);
+}
+
+export interface ChordQuiz {
+  root: string;
+  quality: ChordQuality;
+  voicing: ChordTonePosition[];
+  question: ChordQuestion;
+  target: ChordTonePosition; // The note asked about in 'tone' questions
+  correctAnswer: string; // Chord key for 'name' questions, chord tone label for 'tone' questions
+  options: string[];
+}
+
+type VoicedChord = { root: string; quality: ChordQuality; voicing: ChordTonePosition[] };
+
+// Every voicing of the given qualities on the neck whose fretted notes stretch at most `maxSpan` frets
+function getVoicedChords(qualities: ChordQuality[], inversions: boolean, strings: string[], fretCount: number, maxSpan: number): VoicedChord[] {
+  const offsets = getStringOffsets(strings);
+  const chords: VoicedChord[] = [];
+  for (const quality of qualities) {
+    const inversionCount = inversions ? quality.intervals.length : 1;
+    for (let inversion = 0; inversion < inversionCount; inversion++) {
+      for (let lowString = strings.length - 1; lowString >= 0; lowString--) {
+        for (let startFret = 0; startFret <= fretCount; startFret++) {
+          const voicing = getVoicing(offsets, fretCount, quality, inversion, lowString, startFret, maxSpan);
+          if (!voicing) continue;
+          // The root sits on the string of tone 0
+          const rootPos = voicing.find((p) => p.tone === 0)!;
+          chords.push({ root: getNoteName(strings[rootPos.stringIdx], rootPos.fretIdx), quality, voicing });
+        }
+      }
+    }
+  }
+  return chords;
+}
+
+// The triad a seventh chord is built on, e.g. major for dominant and major 7th chords
+function getBaseTriad(quality: ChordQuality): ChordQuality {
+  const triad = quality.intervals.slice(0, 3).join(',');
+  return CHORD_QUALITIES.find((q) => q.intervals.join(',') === triad) ?? quality;
+}
+
+// Voicings for a level. Tunings with wide gaps between strings (Drop D on a 4-string bass)
+// have no close voicing within MAX_FRET_SPAN for some chords: then the stretch is widened
+// step by step, and on instruments with too few strings the chords' triads are voiced instead.
+function getLevelVoicings(qualities: ChordQuality[], inversions: boolean, strings: string[], fretCount: number): VoicedChord[] {
+  for (const chordQualities of [qualities, [...new Set(qualities.map(getBaseTriad))]]) {
+    for (let maxSpan = MAX_FRET_SPAN; maxSpan <= fretCount; maxSpan++) {
+      const chords = getVoicedChords(chordQualities, inversions, strings, fretCount, maxSpan);
+      if (chords.length > 0) return chords;
+    }
+  }
+  return [];
+}
+
+// Pick a playable voicing of a chord allowed at this level, then ask for its name or
+// for the role of one of its notes
+export function getRandomChordQuiz(level: number, strings: string[], fretCount: number, random: () => number = Math.random): ChordQuiz {
+  const { qualities, inversions, questions } = getChordLevelConstraints(level);
+  const candidates = getLevelVoicings(qualities.map(getChordQuality), inversions, strings, fretCount);
+  if (candidates.length === 0) {
+    throw new Error(`No chord of level ${level} can be voiced on ${strings.length} strings`);
+  }
+  const { root, quality, voicing } = candidates[getRandomInt(candidates.length, random)];
+  const question = questions[getRandomInt(questions.length, random)];
+  const target = voicing[getRandomInt(voicing.length, random)];
+
+  let correctAnswer: string;
+  let options: string[];
+  if (question === 'tone') {
+    // Every tone of the chord is an option
+    correctAnswer = CHORD_TONES[target.tone];
+    options = CHORD_TONES.slice(0, quality.intervals.length);
+  } else {
+    // Distractors share either the root or the quality with the answer, so both have to be read.
+    // Chords with the same notes (augmented triads a major 3rd apart) would be just as right.
+    correctAnswer = getChordKey(root, quality);
+    const correctNotes = getPitchClasses(correctAnswer);
+    const levelQualities = qualities.map(getChordQuality);
+    const pool = [
+      ...levelQualities.filter((q) => q.id !== quality.id).map((q) => getChordKey(root, q)),
+      ...NOTE_NAMES.filter((n) => n !== root).map((n) => getChordKey(n, quality)),
+    ].filter((key) => getPitchClasses(key) !== correctNotes);
+    options = [correctAnswer];
+    while (options.length < 3) {
+      const key = pool[getRandomInt(pool.length, random)];
+      if (!options.includes(key)) options.push(key);
+    }
+    options = options.sort(() => random() - 0.5);
+  }
+  return { root, quality, voicing, question, target, correctAnswer, options };
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+import {
+  BADGES,
+  getCurrentStreak,
+  getGoalProgress,
+  getTodayProgress,
+  type AchievementState,
+  type DailyGoal,
+} from '../achievements';
+
+interface AchievementsProps {
+  state: AchievementState;
+  goal: DailyGoal;
+  today: string;
+}
+
+// Achievements view: today's goal, the practice streak and every badge, locked ones greyed out
+const Achievements: React.FC<AchievementsProps> = ({ state, goal, today }) => {
+  const progress = getGoalProgress(getTodayProgress(state, today), goal);
+  const goalShare = Math.min(1, progress / goal.target);
+  const streak = getCurrentStreak(state, today);
+  const unlockedCount = BADGES.filter((badge) => badge.id in state.unlocked).length;
+
+  const cardStyle: React.CSSProperties = {
+    background: 'var(--surface)',
+    borderRadius: 'var(--radius)',
+    boxShadow: 'var(--shadow)',
+    padding: 16,
+    textAlign: 'center',
+  };
+
+  return (
+    <div style={{ maxWidth: 900, margin: '0 auto', padding: '0 16px', color: 'var(--on-surface)' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))', gap: 16, marginBottom: 24 }}>
+        <div style={cardStyle}>
+          <div style={{ fontSize: 14, color: '#888' }}>Daily goal</div>
+          <div style={{ fontSize: 24, fontWeight: 600, margin: '6px 0' }}>
+            {progress}/{goal.target} {goal.type === 'questions' ? 'questions' : 'rounds passed'}
+          </div>
+          <div style={{ height: 10, background: 'var(--border)', borderRadius: 5, overflow: 'hidden' }}>
+            <div style={{ width: `${goalShare * 100}%`, height: '100%', background: 'var(--secondary)', transition: 'width 0.3s' }} />
+          </div>
+          <div style={{ fontSize: 14, color: '#888', marginTop: 6 }}>
+            {goalShare >= 1 ? '✅ Goal reached today!' : `Reached on ${state.goalDays} day${state.goalDays === 1 ? '' : 's'} so far`}
+          </div>
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: 14, color: '#888' }}>Practice streak</div>
+          <div style={{ fontSize: 24, fontWeight: 600, margin: '6px 0' }}>
+            📆 {streak} day{streak === 1 ? '' : 's'}
+          </div>
+          <div style={{ fontSize: 14, color: '#888' }}>
+            {state.lastPracticeDate !== today && streak > 0
+              ? 'Complete a round today to keep it going!'
+              : `Best: ${state.bestStreak} day${state.bestStreak === 1 ? '' : 's'}`}
+          </div>
+        </div>
+      </div>
+
+      <h3 style={{ margin: '0 0 12px 0', fontSize: 18 }}>
+        Badges ({unlockedCount}/{BADGES.length})
+      </h3>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: 12 }}>
+        {BADGES.map((badge) => {
+          const unlockedOn = state.unlocked[badge.id];
+          return (
+            <div
+              key={badge.id}
+              style={{ ...cardStyle, opacity: unlockedOn ? 1 : 0.45, filter: unlockedOn ? 'none' : 'grayscale(1)' }}
+              title={unlockedOn ? `Unlocked on ${unlockedOn}` : 'Locked'}
+            >
+              <div style={{ fontSize: 36 }}>{badge.icon}</div>
+              <div style={{ fontWeight: 600, margin: '6px 0 4px 0' }}>{badge.name}</div>
+              <div style={{ fontSize: 13, color: '#888' }}>{badge.description}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Achievements;
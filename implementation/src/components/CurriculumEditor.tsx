@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import {
+  BUILT_IN_CURRICULUM_ID,
+  CurriculumError,
+  NOTE_FILTER_LABELS,
+  createCurriculumId,
+  createLevel,
+  exportCurriculum,
+  parseCurriculum,
+  type Curriculum,
+  type LevelDefinition,
+  type NoteFilter,
+} from '../curriculum';
+
+interface CurriculumEditorProps {
+  curricula: Curriculum[];
+  activeId: string;
+  builtInLevels: LevelDefinition[]; // The built-in ladder for this instrument, to copy from
+  stringCount: number;
+  fretCount: number;
+  onSelect: (id: string) => void;
+  onSave: (curriculum: Curriculum) => void; // Add or update a custom curriculum
+  onDelete: (id: string) => void;
+}
+
+// Curricula view: pick the note ladder used by note and ear training, and author custom ones
+// level by level (strings, fret window, notes, round length, pass score), shared as JSON files
+const CurriculumEditor: React.FC<CurriculumEditorProps> = ({
+  curricula,
+  activeId,
+  builtInLevels,
+  stringCount,
+  fretCount,
+  onSelect,
+  onSave,
+  onDelete,
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const active = curricula.find((c) => c.id === activeId) ?? null;
+
+  function addCurriculum(name: string, levels: LevelDefinition[]) {
+    const curriculum = { id: createCurriculumId(), name, levels };
+    onSave(curriculum);
+    onSelect(curriculum.id);
+  }
+  function handleExport(curriculum: Curriculum) {
+    const blob = new Blob([JSON.stringify(exportCurriculum(curriculum), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fretboard-king-curriculum-${curriculum.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after an error
+    if (!file) return;
+    setImportError(null);
+    try {
+      const curriculum = parseCurriculum(await file.text());
+      onSave(curriculum);
+      onSelect(curriculum.id);
+    } catch (err) {
+      setImportError(err instanceof CurriculumError ? err.message : 'The file could not be read.');
+    }
+  }
+  function handleDelete(curriculum: Curriculum) {
+    if (confirm(`Delete the curriculum "${curriculum.name}"? Progress made on it is kept, but can't be reached without it.`)) {
+      onDelete(curriculum.id);
+      onSelect(BUILT_IN_CURRICULUM_ID);
+    }
+  }
+
+  function updateLevels(curriculum: Curriculum, levels: LevelDefinition[]) {
+    onSave({ ...curriculum, levels });
+  }
+  function updateLevel(curriculum: Curriculum, idx: number, patch: Partial<LevelDefinition>) {
+    updateLevels(curriculum, curriculum.levels.map((level, i) => {
+      if (i !== idx) return level;
+      const next = { ...level, ...patch };
+      // Keep the fret window and the pass score consistent
+      next.maxFret = Math.max(next.maxFret, next.minFret);
+      next.passScore = Math.min(next.passScore, next.questions);
+      return next;
+    }));
+  }
+  function moveLevel(curriculum: Curriculum, idx: number, offset: number) {
+    const levels = [...curriculum.levels];
+    [levels[idx], levels[idx + offset]] = [levels[idx + offset], levels[idx]];
+    updateLevels(curriculum, levels);
+  }
+  function toggleString(curriculum: Curriculum, idx: number, stringIdx: number) {
+    const strings = curriculum.levels[idx].strings;
+    const next = strings.includes(stringIdx) ? strings.filter((s) => s !== stringIdx) : [...strings, stringIdx].sort((a, b) => a - b);
+    if (next.length > 0) updateLevel(curriculum, idx, { strings: next });
+  }
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    fontSize: 14,
+    background: 'var(--surface)',
+    color: 'var(--on-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+  };
+  const inputStyle: React.CSSProperties = {
+    ...buttonStyle,
+    padding: '2px 4px',
+    cursor: 'text',
+  };
+  const numberInput = (value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const n = parseInt(e.target.value, 10);
+        if (Number.isFinite(n)) onChange(Math.min(Math.max(n, min), max));
+      }}
+      style={{ ...inputStyle, width: 48 }}
+    />
+  );
+
+  return (
+    <div style={{ maxWidth: 1100, margin: '0 auto', padding: '0 16px', color: 'var(--on-surface)' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+        <label style={{ fontWeight: 600 }}>
+          Note ladder:{' '}
+          <select value={active?.id ?? BUILT_IN_CURRICULUM_ID} onChange={(e) => onSelect(e.target.value)} style={{ ...buttonStyle, fontSize: 16 }}>
+            <option value={BUILT_IN_CURRICULUM_ID}>Built-in ladder</option>
+            {curricula.map((c) => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+        </label>
+        <button style={buttonStyle} onClick={() => addCurriculum('New curriculum', [createLevel(stringCount)])}>➕ New</button>
+        <button style={buttonStyle} onClick={() => addCurriculum('Copy of the built-in ladder', builtInLevels)}>📋 Copy built-in</button>
+        <label style={buttonStyle}>
+          ⬆️ Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} style={{ display: 'none' }} />
+        </label>
+        {active && (
+          <>
+            <button style={buttonStyle} onClick={() => handleExport(active)}>⬇️ Export</button>
+            <button style={buttonStyle} onClick={() => handleDelete(active)}>🗑️ Delete</button>
+          </>
+        )}
+      </div>
+      {importError && <p style={{ fontSize: 14, color: 'var(--error)', margin: '0 0 12px 0' }}>{importError}</p>}
+      <p style={{ fontSize: 14, color: '#888', margin: '0 0 16px 0' }}>
+        The note ladder is used by note and ear training; each curriculum keeps its own level and progress.
+      </p>
+
+      {!active ? (
+        <p style={{ fontSize: 14 }}>
+          The built-in ladder unlocks the strings from the lowest up and the frets from the nut, with a
+          repetition level after every two levels ({builtInLevels.length} levels on this instrument).
+          Copy it or start a new curriculum to author your own.
+        </p>
+      ) : (
+        <>
+          <label style={{ display: 'block', marginBottom: 12 }}>
+            Name:{' '}
+            <input
+              value={active.name}
+              onChange={(e) => onSave({ ...active, name: e.target.value })}
+              style={{ ...inputStyle, fontSize: 16, width: 300 }}
+            />
+          </label>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: '#888' }}>
+                  <th style={{ padding: 4 }}>Level</th>
+                  <th style={{ padding: 4 }}>Section</th>
+                  <th style={{ padding: 4 }}>Strings</th>
+                  <th style={{ padding: 4 }}>Frets</th>
+                  <th style={{ padding: 4 }}>Notes</th>
+                  <th style={{ padding: 4 }}>Questions</th>
+                  <th style={{ padding: 4 }}>To pass</th>
+                  <th style={{ padding: 4 }}>Review</th>
+                  <th style={{ padding: 4 }} />
+                </tr>
+              </thead>
+              <tbody>
+                {active.levels.map((level, i) => (
+                  <tr key={i} style={{ borderTop: '1px solid var(--border)' }}>
+                    <td style={{ padding: 4 }}>{i}</td>
+                    <td style={{ padding: 4 }}>
+                      <input
+                        value={level.section}
+                        onChange={(e) => updateLevel(active, i, { section: e.target.value })}
+                        style={{ ...inputStyle, width: 110 }}
+                      />
+                    </td>
+                    <td style={{ padding: 4, whiteSpace: 'nowrap' }}>
+                      {Array.from({ length: stringCount }, (_, s) => (
+                        <label key={s} style={{ marginRight: 4 }} title={`String ${s + 1}`}>
+                          <input type="checkbox" checked={level.strings.includes(s)} onChange={() => toggleString(active, i, s)} />
+                          {s + 1}
+                        </label>
+                      ))}
+                    </td>
+                    <td style={{ padding: 4, whiteSpace: 'nowrap' }}>
+                      {numberInput(level.minFret, 0, fretCount, (minFret) => updateLevel(active, i, { minFret }))}
+                      {' – '}
+                      {numberInput(level.maxFret, level.minFret, fretCount, (maxFret) => updateLevel(active, i, { maxFret }))}
+                    </td>
+                    <td style={{ padding: 4 }}>
+                      <select
+                        value={level.notes}
+                        onChange={(e) => updateLevel(active, i, { notes: e.target.value as NoteFilter })}
+                        style={inputStyle}
+                      >
+                        {(Object.keys(NOTE_FILTER_LABELS) as NoteFilter[]).map((filter) => (
+                          <option key={filter} value={filter}>{NOTE_FILTER_LABELS[filter]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={{ padding: 4 }}>{numberInput(level.questions, 1, 100, (questions) => updateLevel(active, i, { questions }))}</td>
+                    <td style={{ padding: 4 }}>{numberInput(level.passScore, 1, level.questions, (passScore) => updateLevel(active, i, { passScore }))}</td>
+                    <td style={{ padding: 4 }}>
+                      <input type="checkbox" checked={level.review} onChange={() => updateLevel(active, i, { review: !level.review })} />
+                    </td>
+                    <td style={{ padding: 4, whiteSpace: 'nowrap' }}>
+                      <button style={buttonStyle} disabled={i === 0} onClick={() => moveLevel(active, i, -1)} title="Move up">↑</button>
+                      <button style={buttonStyle} disabled={i === active.levels.length - 1} onClick={() => moveLevel(active, i, 1)} title="Move down">↓</button>
+                      <button
+                        style={buttonStyle}
+                        disabled={active.levels.length <= 1}
+                        onClick={() => updateLevels(active, active.levels.filter((_, j) => j !== i))}
+                        title="Remove level"
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <button
+            style={{ ...buttonStyle, marginTop: 12 }}
+            onClick={() => {
+              const last = active.levels[active.levels.length - 1];
+              updateLevels(active, [...active.levels, last ? { ...last, review: false } : createLevel(stringCount)]);
+            }}
+          >
+            ➕ Add level
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CurriculumEditor;
@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+
+interface FretRangeSliderProps {
+  fretCount: number;
+  minFret: number;
+  maxFret: number;
+  onChange: (minFret: number, maxFret: number) => void;
+}
+
+// Width of the open-string column, as on the Fretboard
+const NUT_WIDTH = 44;
+
+// Horizontal center of a fret's column, lined up with the Fretboard below it
+function getFretLeft(fret: number, fretCount: number): string {
+  return fret === 0 ? `${NUT_WIDTH / 2}px` : `calc(${NUT_WIDTH}px + (100% - ${NUT_WIDTH}px) * ${(fret - 0.5) / fretCount})`;
+}
+
+// Two-handle fret range control, laid out like the Fretboard so the handles sit over the frets.
+// Drag a handle (or the nearest one from a click on the track), or use the arrow keys.
+const FretRangeSlider: React.FC<FretRangeSliderProps> = ({ fretCount, minFret, maxFret, onChange }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<'min' | 'max' | null>(null);
+
+  function getFretAt(clientX: number): number {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const x = clientX - rect.left;
+    if (x < NUT_WIDTH) return 0;
+    const fretWidth = (rect.width - NUT_WIDTH) / fretCount;
+    return Math.min(fretCount, Math.max(1, Math.ceil((x - NUT_WIDTH) / fretWidth)));
+  }
+  function moveHandle(handle: 'min' | 'max', fret: number) {
+    if (handle === 'min') onChange(Math.min(fret, maxFret), maxFret);
+    else onChange(minFret, Math.max(fret, minFret));
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLDivElement>) {
+    const fret = getFretAt(e.clientX);
+    // The nearer handle follows; between equal handles, the direction decides
+    dragging.current = Math.abs(fret - minFret) < Math.abs(fret - maxFret) || fret < minFret ? 'min' : 'max';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveHandle(dragging.current, fret);
+  }
+  function handlePointerMove(e: React.PointerEvent<HTMLDivElement>) {
+    if (dragging.current) moveHandle(dragging.current, getFretAt(e.clientX));
+  }
+  function handleKeyDown(e: React.KeyboardEvent<HTMLDivElement>, handle: 'min' | 'max') {
+    const step = e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -1 : e.key === 'ArrowRight' || e.key === 'ArrowUp' ? 1 : 0;
+    if (step === 0) return;
+    e.preventDefault();
+    const fret = (handle === 'min' ? minFret : maxFret) + step;
+    if (fret >= 0 && fret <= fretCount) moveHandle(handle, fret);
+  }
+
+  const handleStyle = (fret: number): React.CSSProperties => ({
+    position: 'absolute',
+    left: getFretLeft(fret, fretCount),
+    top: 4,
+    width: 24,
+    height: 24,
+    marginLeft: -12,
+    borderRadius: '50%',
+    background: 'var(--primary)',
+    color: 'var(--on-primary)',
+    fontSize: 12,
+    fontWeight: 600,
+    lineHeight: '24px',
+    textAlign: 'center',
+    boxShadow: 'var(--shadow)',
+    cursor: 'grab',
+  });
+
+  return (
+    <div style={{ width: '95vw', maxWidth: '1200px', margin: '0 auto 8px auto' }}>
+      <div
+        ref={trackRef}
+        style={{ position: 'relative', height: 32, touchAction: 'none', cursor: 'pointer' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (dragging.current = null)}
+        onPointerCancel={() => (dragging.current = null)}
+      >
+        <div style={{ position: 'absolute', left: 0, right: 0, top: 14, height: 4, borderRadius: 2, background: 'var(--border)' }} />
+        <div
+          style={{
+            position: 'absolute',
+            left: getFretLeft(minFret, fretCount),
+            width: `calc(${getFretLeft(maxFret, fretCount)} - ${getFretLeft(minFret, fretCount)})`,
+            top: 14,
+            height: 4,
+            background: 'var(--primary)',
+          }}
+        />
+        {(['min', 'max'] as const).map((handle) => {
+          const fret = handle === 'min' ? minFret : maxFret;
+          return (
+            <div
+              key={handle}
+              role="slider"
+              tabIndex={0}
+              aria-label={handle === 'min' ? 'Lowest fret' : 'Highest fret'}
+              aria-valuemin={0}
+              aria-valuemax={fretCount}
+              aria-valuenow={fret}
+              onKeyDown={(e) => handleKeyDown(e, handle)}
+              style={handleStyle(fret)}
+            >
+              {fret}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FretRangeSlider;
@@ -0,0 +1,228 @@
+import React, { useRef } from 'react';
+import { convertNoteToDisplay, type NoteNaming, type NoteSpelling } from '../notes';
+
+export interface FretPosition {
+  stringIdx: number;
+  fretIdx: number;
+}
+
+// A marked cell: a correct or wrong tap, a position revealed after the question ends,
+// the root/target of an interval question, or a scale degree. Any number of cells can be
+// marked at once; the optional label is drawn in the cell, color overrides the kind's color
+// and title is shown on hover.
+export interface FretMark extends FretPosition {
+  kind: 'correct' | 'wrong' | 'reveal' | 'root' | 'target' | 'degree';
+  label?: string;
+  color?: string;
+  title?: string;
+}
+
+interface FretboardProps {
+  strings: string[];
+  fretCount: number;
+  highlight?: FretPosition;
+  marks?: FretMark[];
+  showStringNames?: boolean;
+  fretboardColor?: string;
+  noteNaming?: NoteNaming;
+  spelling?: NoteSpelling;
+  onCellSelect?: (position: FretPosition) => void;
+  compact?: boolean; // Smaller board that fits its container, for summaries
+  isDimmed?: (position: FretPosition) => boolean; // Cells outside the practiced region, drawn faded
+}
+
+// Pointer travel (px) above which a press counts as a scroll/drag rather than a tap
+const TAP_TOLERANCE = 10;
+
+const MARK_COLORS: Record<FretMark['kind'], string> = {
+  correct: 'var(--secondary)',
+  wrong: 'var(--error)',
+  reveal: 'transparent',
+  root: 'var(--primary)',
+  target: 'var(--secondary)',
+  degree: 'var(--secondary)',
+};
+
+const Fretboard: React.FC<FretboardProps> = ({
+  strings,
+  fretCount,
+  highlight,
+  marks = [],
+  showStringNames = true,
+  fretboardColor = '#222',
+  noteNaming = 'US',
+  spelling,
+  onCellSelect,
+  compact = false,
+  isDimmed,
+}) => {
+  // For each marked fret, render a dot only once, centered vertically
+  const markerFrets = [3, 5, 7, 9, 12, 15, 17, 19, 21, 24].filter((fret) => fret <= fretCount);
+  const pointerStart = useRef<{ x: number; y: number } | null>(null);
+
+  // Hit-test taps and clicks alike through pointer events: resolve the cell under the pointer
+  // from its data attributes, ignoring presses that turned into a horizontal scroll
+  function handlePointerDown(e: React.PointerEvent<HTMLTableElement>) {
+    pointerStart.current = { x: e.clientX, y: e.clientY };
+  }
+  function handlePointerUp(e: React.PointerEvent<HTMLTableElement>) {
+    const start = pointerStart.current;
+    pointerStart.current = null;
+    if (!onCellSelect || !start) return;
+    if (Math.abs(e.clientX - start.x) > TAP_TOLERANCE || Math.abs(e.clientY - start.y) > TAP_TOLERANCE) return;
+    const cell = (e.target as HTMLElement).closest('td');
+    if (!cell || cell.dataset.string === undefined || cell.dataset.fret === undefined) return;
+    onCellSelect({ stringIdx: Number(cell.dataset.string), fretIdx: Number(cell.dataset.fret) });
+  }
+  function handleKeyDown(e: React.KeyboardEvent<HTMLTableCellElement>, position: FretPosition) {
+    if (onCellSelect && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      onCellSelect(position);
+    }
+  }
+
+  return (
+    <div style={{
+      position: 'relative',
+      width: compact ? '100%' : '95vw',
+      maxWidth: '1200px',
+      margin: '0 auto',
+      background: 'var(--surface)',
+      borderRadius: 'var(--radius)',
+      boxShadow: '0 2px 12px #0002',
+      padding: compact ? '8px 0' : '18px 0 18px 0',
+      overflowX: 'auto',
+      transition: 'background 0.2s',
+    }}>
+      <table
+        className="fretboard"
+        style={{
+          borderCollapse: 'collapse',
+          width: '100%',
+          tableLayout: 'fixed',
+          touchAction: onCellSelect ? 'pan-x' : undefined,
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => (pointerStart.current = null)}
+      >
+        <tbody>
+          {strings.map((string, sIdx) => (
+            <tr key={sIdx}>
+              {[...Array(fretCount + 1)].map((_, fIdx) => {
+                const isHighlight =
+                  highlight && sIdx === highlight.stringIdx && fIdx === highlight.fretIdx;
+                const mark = marks.find((m) => m.stringIdx === sIdx && m.fretIdx === fIdx);
+                return (
+                  <td
+                    key={fIdx}
+                    data-string={sIdx}
+                    data-fret={fIdx}
+                    role={onCellSelect ? 'button' : undefined}
+                    tabIndex={onCellSelect ? 0 : undefined}
+                    aria-label={onCellSelect ? `String ${sIdx + 1}, fret ${fIdx}` : undefined}
+                    title={mark?.title}
+                    onKeyDown={onCellSelect ? (e) => handleKeyDown(e, { stringIdx: sIdx, fretIdx: fIdx }) : undefined}
+                    style={{
+                      border: '1px solid var(--border)',
+                      width: fIdx === 0 ? 44 : 'auto',
+                      height: compact ? 28 : 44,
+                      background: isHighlight
+                        ? 'var(--primary)'
+                        : mark && mark.kind !== 'reveal'
+                          ? mark.color ?? MARK_COLORS[mark.kind]
+                          : fIdx === 0
+                            ? 'var(--surface)'
+                            : fretboardColor,
+                      outline: mark?.kind === 'reveal' ? '3px dashed var(--secondary)' : 'none',
+                      outlineOffset: -4,
+                      color: fIdx === 0 || mark?.label ? 'var(--on-primary)' : '#b0b0b0',
+                      textAlign: 'center',
+                      position: 'relative',
+                      padding: 0,
+                      fontWeight: fIdx === 0 || mark?.label ? 600 : 400,
+                      fontSize: compact ? 13 : fIdx === 0 ? 18 : 16,
+                      cursor: onCellSelect ? 'pointer' : 'default',
+                      opacity: isDimmed?.({ stringIdx: sIdx, fretIdx: fIdx }) ? 0.3 : 1,
+                      transition: 'background 0.2s, opacity 0.2s',
+                    }}
+                  >
+                    {mark?.label ?? (fIdx === 0 && showStringNames ? convertNoteToDisplay(string, noteNaming, spelling) : '')}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {/* Render marker dots absolutely over the table, one per marked fret, two for 12th and 24th fret */}
+      {markerFrets.map((fret) => {
+        if (fret % 12 === 0) {
+          // 12th and 24th fret get 2 dots at 1/3 and 2/3 positions
+          return (
+            <React.Fragment key={fret}>
+              <span
+                style={{
+                  position: 'absolute',
+                  left: `calc(${((fret) / (fretCount + 1)) * 100}% + 44px / 2)`, // 44px for string label col
+                  top: '33.33%',
+                  transform: 'translate(-50%, -50%)',
+                  width: 18,
+                  height: 18,
+                  borderRadius: '50%',
+                  background: '#fff',
+                  boxShadow: '0 0 4px #0006',
+                  opacity: 0.92,
+                  zIndex: 2,
+                  pointerEvents: 'none',
+                  transition: 'box-shadow 0.2s',
+                }}
+              />
+              <span
+                style={{
+                  position: 'absolute',
+                  left: `calc(${((fret) / (fretCount + 1)) * 100}% + 44px / 2)`, // 44px for string label col
+                  top: '66.67%',
+                  transform: 'translate(-50%, -50%)',
+                  width: 18,
+                  height: 18,
+                  borderRadius: '50%',
+                  background: '#fff',
+                  boxShadow: '0 0 4px #0006',
+                  opacity: 0.92,
+                  zIndex: 2,
+                  pointerEvents: 'none',
+                  transition: 'box-shadow 0.2s',
+                }}
+              />
+            </React.Fragment>
+          );
+        } else {
+          // All other frets get single centered dot
+          return (
+            <span
+              key={fret}
+              style={{
+                position: 'absolute',
+                left: `calc(${((fret) / (fretCount + 1)) * 100}% + 44px / 2)`, // 44px for string label col
+                top: '50%',
+                transform: 'translate(-50%, -50%)',
+                width: 18,
+                height: 18,
+                borderRadius: '50%',
+                background: '#fff',
+                boxShadow: '0 0 4px #0006',
+                opacity: 0.92,
+                zIndex: 2,
+                pointerEvents: 'none',
+                transition: 'box-shadow 0.2s',
+              }}
+            />
+          );
+        }
+      })}
+    </div>
+  );
+};
+
+export default Fretboard;
@@ -1,12 +1,53 @@
 import React, { useEffect, useRef } from 'react';
+import type { Curriculum } from '../curriculum';
 
 interface LevelMapProps {
   currentLevel: number;
   maxLevel: number;
+  baseMaxLevel?: number; // Last level before the upper-register levels (defaults to maxLevel)
+  curriculum?: Curriculum | null; // Custom note ladder: its sections and review levels replace the built-in ones
   onLevelClick?: (level: number) => void;
 }
 
-const LevelMap: React.FC<LevelMapProps> = ({ currentLevel, maxLevel, onLevelClick }) => {
+// Section names and colors, in level order
+const SECTIONS = [
+  { name: 'Foundation', color: '#B3E5FC' },      // Light Blue
+  { name: 'Elementary', color: '#C8E6C9' },      // Light Green
+  { name: 'Intermediate', color: '#FFF9C4' },    // Light Yellow
+  { name: 'Advanced', color: '#FFCCBC' },        // Light Orange
+  { name: 'Expert', color: '#F8BBD0' },          // Light Pink
+  { name: 'Master I', color: '#E1BEE7' },        // Light Purple
+  { name: 'Master II', color: '#D1C4E9' },       // Light Indigo
+  { name: 'Master III', color: '#C5CAE9' },      // Light Blue-Grey
+  { name: 'Grand Master', color: '#B2DFDB' },    // Light Teal
+];
+
+// Sections for the upper-register levels (frets 12 and up on longer necks)
+const UPPER_SECTIONS = [
+  { name: 'Upper Register I', color: '#FFE0B2' },  // Light Amber
+  { name: 'Upper Register II', color: '#FFECB3' }, // Pale Amber
+  { name: 'Upper Register III', color: '#F0F4C3' },// Light Lime
+  { name: 'Full Neck', color: '#CFD8DC' },         // Light Grey
+];
+
+// Map sections of a curriculum: runs of consecutive levels with the same section name (1-based levels)
+function getCurriculumSections(curriculum: Curriculum): { name: string; levels: string; color: string }[] {
+  const sections: { name: string; levels: string; color: string }[] = [];
+  let start = 0;
+  curriculum.levels.forEach((level, i) => {
+    const next = curriculum.levels[i + 1];
+    if (next && next.section === level.section) return;
+    sections.push({
+      name: level.section,
+      levels: `${start + 1}-${i + 1}`,
+      color: SECTIONS[sections.length % SECTIONS.length].color,
+    });
+    start = i + 1;
+  });
+  return sections;
+}
+
+const LevelMap: React.FC<LevelMapProps> = ({ currentLevel, maxLevel, baseMaxLevel = maxLevel, curriculum = null, onLevelClick }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
@@ -24,24 +65,29 @@ const LevelMap: React.FC<LevelMapProps> = ({ currentLevel, maxLevel, onLevelClic
       
       // Calculate repetition levels (every 3rd level: 3, 6, 9, 12, 15, 18, 21, 24, 27)
       // This corresponds to 0-based levels 2, 5, 8, 11, 14, 17, 20, 23, 26
-      const repetitionLevels = [];
-      for (let i = 3; i <= maxLevel + 1; i += 3) {
+      // Curricula mark their own review levels
+      const repetitionLevels = curriculum ? curriculum.levels.flatMap((level, i) => (level.review ? [i + 1] : [])) : [];
+      for (let i = 3; !curriculum && i <= maxLevel + 1; i += 3) {
         repetitionLevels.push(i);
       }
       
       // Define sections for level grouping
       // Each section contains 2 regular levels + 1 repetition level (3 total)
-      const sections = [
-        { name: 'Foundation', levels: '1-3', color: '#B3E5FC' },      // Light Blue
-        { name: 'Elementary', levels: '4-6', color: '#C8E6C9' },      // Light Green
-        { name: 'Intermediate', levels: '7-9', color: '#FFF9C4' },    // Light Yellow
-        { name: 'Advanced', levels: '10-12', color: '#FFCCBC' },      // Light Orange
-        { name: 'Expert', levels: '13-15', color: '#F8BBD0' },        // Light Pink
-        { name: 'Master I', levels: '16-18', color: '#E1BEE7' },      // Light Purple
-        { name: 'Master II', levels: '19-21', color: '#D1C4E9' },     // Light Indigo
-        { name: 'Master III', levels: '22-24', color: '#C5CAE9' },    // Light Blue-Grey
-        { name: 'Grand Master', levels: '25-27', color: '#B2DFDB' },  // Light Teal
-      ];
+      // Instruments with more strings have more levels; extra sections continue the Grand Master series
+      // Levels past baseMaxLevel belong to the upper register and use their own sections
+      const sections = curriculum ? getCurriculumSections(curriculum) : [];
+      for (let start = 1, i = 0; !curriculum && start <= maxLevel + 1; start += 3, i++) {
+        const upper = start > baseMaxLevel + 1;
+        const names = upper ? UPPER_SECTIONS : SECTIONS;
+        const idx = upper ? (start - baseMaxLevel - 2) / 3 : i;
+        const section = names[Math.min(idx, names.length - 1)];
+        const extra = idx - (names.length - 1);
+        sections.push({
+          name: extra > 0 ? `${section.name} ${extra + 1}` : section.name,
+          levels: `${start}-${Math.min(start + 2, maxLevel + 1)}`,
+          color: section.color,
+        });
+      }
       
       // Create the web component element
       const levelMapElement = document.createElement('game-level-map');
@@ -73,7 +119,7 @@ const LevelMap: React.FC<LevelMapProps> = ({ currentLevel, maxLevel, onLevelClic
         levelMapElement.removeEventListener('level-click', handleLevelClick as EventListener);
       };
     }
-  }, [currentLevel, maxLevel, onLevelClick]);
+  }, [currentLevel, maxLevel, baseMaxLevel, curriculum, onLevelClick]);
 
   return (
     <div
@@ -99,7 +145,7 @@ const LevelMap: React.FC<LevelMapProps> = ({ currentLevel, maxLevel, onLevelClic
           textAlign: 'center',
         }}
       >
-        🗺️ Level Map
+        🗺️ Level Map{curriculum ? `: ${curriculum.name}` : ''}
       </h2>
       <p
         style={{
@@ -135,10 +181,14 @@ const LevelMap: React.FC<LevelMapProps> = ({ currentLevel, maxLevel, onLevelClic
         }}
       >
         <p style={{ margin: '8px 0' }}>
-          Complete rounds with at least 12/15 correct answers to unlock the next level!
+          {curriculum
+            ? 'Complete rounds with the correct answers each level asks for to unlock the next level!'
+            : 'Complete rounds with at least 12/15 correct answers to unlock the next level!'}
         </p>
         <p style={{ margin: '8px 0', color: '#FF6B6B', fontWeight: 600 }}>
-          🔄 Repetition levels (every 3rd level, marked with dashed borders) test the previous 2 levels!
+          {curriculum
+            ? '🔄 Review levels are marked with dashed borders.'
+            : '🔄 Repetition levels (every 3rd level, marked with dashed borders) test the previous 2 levels!'}
         </p>
         <p style={{ margin: '8px 0', color: 'var(--primary)', fontWeight: 600 }}>
           💡 Click any level to practice it again!
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import Fretboard, { type FretMark } from './Fretboard';
+import { convertNoteToDisplay, getNoteName, type NoteNaming, type NoteSpelling } from '../notes';
+import { getMedianTime, type MasteryMap } from '../mastery';
+
+interface MasteryHeatmapProps {
+  strings: string[];
+  fretCount: number;
+  mastery: MasteryMap;
+  noteNaming: NoteNaming;
+  spelling: NoteSpelling;
+  fretboardColor: string;
+}
+
+type HeatmapMetric = 'accuracy' | 'time';
+
+// Hue from red (0) to green (120) for a 0..1 score, 1 being best
+function getHeatColor(score: number): string {
+  return `hsl(${Math.round(score * 120)}, 70%, 40%)`;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Statistics view: the fretboard colored per cell by accuracy or by median response time.
+// Times are colored relative to the player's own fastest and slowest cells.
+const MasteryHeatmap: React.FC<MasteryHeatmapProps> = ({ strings, fretCount, mastery, noteNaming, spelling, fretboardColor }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('accuracy');
+
+  const cells = [];
+  for (let stringIdx = 0; stringIdx < strings.length; stringIdx++) {
+    for (let fretIdx = 0; fretIdx <= fretCount; fretIdx++) {
+      const stats = mastery[`${stringIdx}:${fretIdx}`];
+      if (stats && stats.attempts > 0) {
+        cells.push({ stringIdx, fretIdx, stats, median: getMedianTime(stats) });
+      }
+    }
+  }
+  const medians = cells.map((c) => c.median).filter((m): m is number => m !== null);
+  const fastest = Math.min(...medians);
+  const slowest = Math.max(...medians);
+
+  const marks: FretMark[] = cells.map(({ stringIdx, fretIdx, stats, median }) => {
+    const accuracy = stats.correct / stats.attempts;
+    const note = convertNoteToDisplay(getNoteName(strings[stringIdx], fretIdx), noteNaming, spelling);
+    const title = `${note} (string ${stringIdx + 1}, fret ${fretIdx}): ${stats.correct}/${stats.attempts} correct`
+      + (median !== null ? `, median ${formatSeconds(median)}` : '');
+    if (metric === 'accuracy') {
+      return { stringIdx, fretIdx, kind: 'degree', color: getHeatColor(accuracy), label: `${Math.round(accuracy * 100)}`, title };
+    }
+    if (median === null) {
+      return { stringIdx, fretIdx, kind: 'reveal', title };
+    }
+    const speed = slowest > fastest ? (slowest - median) / (slowest - fastest) : 1;
+    return { stringIdx, fretIdx, kind: 'degree', color: getHeatColor(speed), label: (median / 1000).toFixed(1), title };
+  });
+
+  const buttonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '6px 16px',
+    fontSize: 16,
+    background: active ? 'var(--primary)' : 'var(--surface)',
+    color: active ? 'var(--on-primary)' : 'var(--on-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+    fontWeight: active ? 600 : 400,
+  });
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'center', gap: 12, marginBottom: 16 }}>
+        <button style={buttonStyle(metric === 'accuracy')} onClick={() => setMetric('accuracy')}>
+          🎯 Accuracy (%)
+        </button>
+        <button style={buttonStyle(metric === 'time')} onClick={() => setMetric('time')}>
+          ⏱️ Median time (s)
+        </button>
+      </div>
+      <Fretboard
+        strings={strings}
+        fretCount={fretCount}
+        marks={marks}
+        showStringNames={true}
+        fretboardColor={fretboardColor}
+        noteNaming={noteNaming}
+        spelling={spelling}
+      />
+      <p style={{ textAlign: 'center', fontSize: 14, color: '#888', marginTop: 16 }}>
+        {cells.length === 0
+          ? 'No answers recorded yet for this instrument, tuning and practice track. Play a few note rounds first!'
+          : metric === 'time' && medians.length === 0
+            ? 'No response times recorded yet.'
+            : metric === 'accuracy'
+              ? 'Green cells are notes you know, red cells are your blind spots. Hover a cell for its counts.'
+              : `Green is your fastest (${formatSeconds(fastest)}), red your slowest (${formatSeconds(slowest)}) median response. Hover a cell for its counts.`}
+      </p>
+    </div>
+  );
+};
+
+export default MasteryHeatmap;
@@ -0,0 +1,75 @@
+import React from 'react';
+import type { Profile } from '../profiles';
+
+interface ProfilePickerProps {
+  profiles: Profile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const MAX_NAME_LENGTH = 30;
+
+function askName(message: string, current: string = ''): string | null {
+  const name = prompt(message, current)?.trim().slice(0, MAX_NAME_LENGTH);
+  return name ? name : null;
+}
+
+// Header profile picker: switch the active player, and create, rename or delete profiles
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, activeId, onSwitch, onCreate, onRename, onDelete }) => {
+  const active = profiles.find((p) => p.id === activeId) ?? profiles[0];
+
+  function handleCreate() {
+    const name = askName('Name of the new player:');
+    if (name) onCreate(name);
+  }
+  function handleRename() {
+    const name = askName('New name for this player:', active.name);
+    if (name) onRename(active.id, name);
+  }
+  function handleDelete() {
+    if (confirm(`Delete the player "${active.name}" with all their progress? This cannot be undone.`)) {
+      onDelete(active.id);
+    }
+  }
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    fontSize: 14,
+    background: 'var(--surface)',
+    color: 'var(--on-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginLeft: 16 }}>
+      <span role="img" aria-label="Player">👤</span>
+      <select
+        aria-label="Player profile"
+        value={active.id}
+        onChange={(e) => onSwitch(e.target.value)}
+        style={{ ...buttonStyle, fontSize: 16 }}
+      >
+        {profiles.map((p) => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+      <button style={buttonStyle} onClick={handleCreate} title="New player">➕</button>
+      <button style={buttonStyle} onClick={handleRename} title="Rename player">✏️</button>
+      <button
+        style={{ ...buttonStyle, opacity: profiles.length > 1 ? 1 : 0.5, cursor: profiles.length > 1 ? 'pointer' : 'default' }}
+        onClick={handleDelete}
+        disabled={profiles.length <= 1}
+        title={profiles.length > 1 ? 'Delete player' : 'The only player cannot be deleted'}
+      >
+        🗑️
+      </button>
+    </div>
+  );
+};
+
+export default ProfilePicker;
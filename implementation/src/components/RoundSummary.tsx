@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import Fretboard, { type FretMark } from './Fretboard';
+import { formatReactionTime } from '../scoring';
+import type { NoteNaming, NoteSpelling } from '../notes';
+
+// One decided question of a round, as shown in the summary
+export interface RoundLogEntry {
+  prompt: string; // Where or what was asked, e.g. 'String 3, fret 5'
+  correctAnswer: string;
+  givenAnswer: string | null; // null when the time ran out
+  correct: boolean;
+  time: number; // ms
+  marks: FretMark[]; // The question on the fretboard, with the wrong tap if any, for the replay
+}
+
+interface RoundSummaryProps {
+  log: RoundLogEntry[];
+  strings: string[];
+  fretCount: number;
+  noteNaming: NoteNaming;
+  spelling: NoteSpelling;
+  fretboardColor: string;
+  onRetryMisses: () => void;
+}
+
+// Post-round summary: every question with the answer given and its time, and a small
+// fretboard replaying the selected miss
+const RoundSummary: React.FC<RoundSummaryProps> = ({ log, strings, fretCount, noteNaming, spelling, fretboardColor, onRetryMisses }) => {
+  const misses = log.filter((entry) => !entry.correct);
+  const [replayIdx, setReplayIdx] = useState(() => log.findIndex((entry) => !entry.correct));
+  const replay = log[replayIdx];
+
+  const cellStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    borderBottom: '1px solid var(--border)',
+    textAlign: 'left',
+  };
+
+  return (
+    <div style={{ maxWidth: 900, margin: '0 auto', padding: '0 16px', color: 'var(--on-surface)' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 15 }}>
+        <thead>
+          <tr style={{ color: '#888' }}>
+            <th style={cellStyle}>#</th>
+            <th style={cellStyle}>Question</th>
+            <th style={cellStyle}>Correct</th>
+            <th style={cellStyle}>Your answer</th>
+            <th style={cellStyle}>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {log.map((entry, idx) => (
+            <tr
+              key={idx}
+              onClick={entry.correct ? undefined : () => setReplayIdx(idx)}
+              title={entry.correct ? undefined : 'Replay this miss on the fretboard'}
+              style={{
+                cursor: entry.correct ? 'default' : 'pointer',
+                background: idx === replayIdx ? 'var(--surface)' : 'transparent',
+              }}
+            >
+              <td style={cellStyle}>{idx + 1}</td>
+              <td style={cellStyle}>{entry.prompt}</td>
+              <td style={cellStyle}>{entry.correctAnswer}</td>
+              <td style={{ ...cellStyle, color: entry.correct ? 'var(--secondary)' : 'var(--error)', fontWeight: 600 }}>
+                {entry.correct ? '✅' : '❌'} {entry.givenAnswer ?? '⏰ Time up'}
+              </td>
+              <td style={cellStyle}>{formatReactionTime(entry.time)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {replay && (
+        <div style={{ marginTop: 24 }}>
+          <div style={{ fontSize: 16, marginBottom: 8, textAlign: 'center' }}>
+            Miss #{replayIdx + 1}: {replay.prompt} - the answer was <b>{replay.correctAnswer}</b>
+            {replay.givenAnswer !== null && <>, you answered <b style={{ color: 'var(--error)' }}>{replay.givenAnswer}</b></>}
+          </div>
+          <Fretboard
+            strings={strings}
+            fretCount={fretCount}
+            marks={replay.marks}
+            showStringNames={true}
+            fretboardColor={fretboardColor}
+            noteNaming={noteNaming}
+            spelling={spelling}
+            compact={true}
+          />
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'center', marginTop: 24 }}>
+        <button
+          onClick={onRetryMisses}
+          disabled={misses.length === 0}
+          style={{
+            padding: '12px 24px',
+            fontSize: 18,
+            background: 'var(--surface)',
+            color: 'var(--on-surface)',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius)',
+            cursor: misses.length === 0 ? 'default' : 'pointer',
+            opacity: misses.length === 0 ? 0.6 : 1,
+            fontWeight: 600,
+            boxShadow: 'var(--shadow)',
+          }}
+        >
+          {misses.length === 0 ? '🏆 No misses this round' : `🔁 Retry my misses (${misses.length})`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoundSummary;
@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import Fretboard, { type FretMark, type FretPosition } from './Fretboard';
+import { NOTE_NAMES, convertNoteToDisplay, getNoteName, type NoteNaming, type NoteSpelling } from '../notes';
+import {
+  ARPEGGIO_TYPES,
+  DEGREE_COLORS,
+  SCALE_TYPES,
+  getAllBoxes,
+  getBoxName,
+  getBoxPositions,
+  getRandomBoxQuiz,
+  getScalePositions,
+  getScaleType,
+  type BoxQuiz,
+  type BoxSpec,
+  type ScalePosition,
+} from '../scales';
+
+interface ScaleExplorerProps {
+  strings: string[];
+  fretCount: number;
+  noteNaming: NoteNaming;
+  spelling: NoteSpelling;
+  fretboardColor: string;
+}
+
+const selectStyle: React.CSSProperties = {
+  marginLeft: 8,
+  padding: '4px 8px',
+  fontSize: 16,
+  background: 'var(--surface)',
+  color: 'var(--on-surface)',
+  border: '1px solid var(--border)',
+  borderRadius: 'var(--radius)',
+  cursor: 'pointer',
+};
+
+function isSamePosition(a: FretPosition, b: FretPosition): boolean {
+  return a.stringIdx === b.stringIdx && a.fretIdx === b.fretIdx;
+}
+
+// Scales tab: explore a scale or arpeggio across the neck or inside one box, or complete
+// a box by tapping the positions that were left out
+const ScaleExplorer: React.FC<ScaleExplorerProps> = ({ strings, fretCount, noteNaming, spelling, fretboardColor }) => {
+  const [root, setRoot] = useState('A');
+  const [scaleId, setScaleId] = useState('minorPentatonic');
+  const [view, setView] = useState<'explore' | 'quiz'>('explore');
+  const [boxIdx, setBoxIdx] = useState(-1); // -1 = whole neck
+  const [showNoteNames, setShowNoteNames] = useState(false);
+
+  // Box quiz state
+  const [quizSystem, setQuizSystem] = useState<BoxSpec['system']>('caged');
+  const [boxQuiz, setBoxQuiz] = useState<BoxQuiz | null>(null);
+  const [found, setFound] = useState<ScalePosition[]>([]);
+  const [mistakes, setMistakes] = useState<FretPosition[]>([]);
+  const [boxesCompleted, setBoxesCompleted] = useState(0);
+
+  const scale = getScaleType(scaleId);
+  const boxes = getAllBoxes(scale);
+  const selectedBox = boxIdx >= 0 ? boxes[boxIdx] : undefined;
+  const quizFinished = boxQuiz !== null && found.length === boxQuiz.missing.length;
+
+  function getLabel(p: ScalePosition): string {
+    return showNoteNames
+      ? convertNoteToDisplay(getNoteName(strings[p.stringIdx], p.fretIdx), noteNaming, spelling)
+      : scale.degrees[p.degree];
+  }
+
+  function toMark(p: ScalePosition, kind: FretMark['kind'] = 'degree'): FretMark {
+    return {
+      stringIdx: p.stringIdx,
+      fretIdx: p.fretIdx,
+      kind: p.degree === 0 && kind === 'degree' ? 'root' : kind,
+      label: getLabel(p),
+      color: kind === 'degree' ? DEGREE_COLORS[p.degree % DEGREE_COLORS.length] : undefined,
+    };
+  }
+
+  function startBoxQuiz() {
+    setBoxQuiz(getRandomBoxQuiz(strings, fretCount, root, scale, quizSystem));
+    setFound([]);
+    setMistakes([]);
+  }
+
+  function handleCellSelect(position: FretPosition) {
+    if (!boxQuiz || quizFinished) return;
+    if (found.some((p) => isSamePosition(p, position)) || boxQuiz.shown.some((p) => isSamePosition(p, position))) return;
+    const hit = boxQuiz.missing.find((p) => isSamePosition(p, position));
+    if (hit) {
+      const nextFound = [...found, hit];
+      setFound(nextFound);
+      if (nextFound.length === boxQuiz.missing.length) {
+        setBoxesCompleted((n) => n + 1);
+      }
+    } else if (!mistakes.some((p) => isSamePosition(p, position))) {
+      setMistakes([...mistakes, position]);
+    }
+  }
+
+  let marks: FretMark[];
+  if (view === 'explore') {
+    const positions = selectedBox
+      ? getBoxPositions(strings, fretCount, root, scale, selectedBox)
+      : getScalePositions(strings, fretCount, root, scale);
+    marks = positions.map((p) => toMark(p));
+  } else if (boxQuiz) {
+    marks = [
+      ...boxQuiz.shown.map((p) => toMark(p)),
+      ...found.map((p) => toMark(p, 'correct')),
+      ...mistakes.map((p): FretMark => ({ ...p, kind: 'wrong' })),
+    ];
+  } else {
+    marks = [];
+  }
+
+  // Changing root or scale invalidates a running box quiz
+  function handleRootChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setRoot(e.target.value);
+    setBoxQuiz(null);
+  }
+  function handleScaleChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    setScaleId(e.target.value);
+    setBoxIdx(-1);
+    setBoxQuiz(null);
+  }
+
+  return (
+    <div>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'center',
+        flexWrap: 'wrap',
+        gap: 16,
+        marginBottom: 16,
+        fontSize: 16,
+        color: 'var(--on-surface)',
+      }}>
+        <label>
+          Root:
+          <select value={root} onChange={handleRootChange} style={selectStyle}>
+            {NOTE_NAMES.map((n) => (
+              <option key={n} value={n}>{convertNoteToDisplay(n, noteNaming, spelling)}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Scale:
+          <select value={scaleId} onChange={handleScaleChange} style={selectStyle}>
+            <optgroup label="Scales">
+              {SCALE_TYPES.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Arpeggios">
+              {ARPEGGIO_TYPES.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+        <label>
+          Mode:
+          <select
+            value={view}
+            onChange={(e) => {
+              setView(e.target.value as 'explore' | 'quiz');
+              setBoxQuiz(null);
+            }}
+            style={selectStyle}
+          >
+            <option value="explore">Explore</option>
+            <option value="quiz">Complete the box</option>
+          </select>
+        </label>
+        {view === 'explore' ? (
+          <label>
+            Show:
+            <select value={boxIdx} onChange={(e) => setBoxIdx(parseInt(e.target.value, 10))} style={selectStyle}>
+              <option value={-1}>Whole neck</option>
+              {boxes.map((box, i) => (
+                <option key={i} value={i}>{getBoxName(box, scale)}</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <label>
+            Box type:
+            <select
+              value={quizSystem}
+              onChange={(e) => {
+                setQuizSystem(e.target.value as BoxSpec['system']);
+                setBoxQuiz(null);
+              }}
+              style={selectStyle}
+            >
+              <option value="caged">CAGED</option>
+              <option value="nps">Notes per string</option>
+            </select>
+          </label>
+        )}
+        <label>
+          <input
+            type="checkbox"
+            checked={showNoteNames}
+            onChange={() => setShowNoteNames((v) => !v)}
+            style={{ marginRight: 8 }}
+          />
+          Note names instead of degrees
+        </label>
+      </div>
+
+      <Fretboard
+        strings={strings}
+        fretCount={fretCount}
+        marks={marks}
+        showStringNames={true}
+        fretboardColor={fretboardColor}
+        noteNaming={noteNaming}
+        spelling={spelling}
+        onCellSelect={view === 'quiz' && boxQuiz && !quizFinished ? handleCellSelect : undefined}
+      />
+
+      {/* Degree legend */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'center',
+        flexWrap: 'wrap',
+        gap: 12,
+        margin: '16px 0',
+        fontSize: 14,
+        color: 'var(--on-surface)',
+      }}>
+        {scale.degrees.map((degree, i) => (
+          <span key={degree} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <span style={{
+              width: 14,
+              height: 14,
+              borderRadius: '50%',
+              background: i === 0 ? 'var(--primary)' : DEGREE_COLORS[i % DEGREE_COLORS.length],
+              display: 'inline-block',
+            }} />
+            {degree} ({convertNoteToDisplay(NOTE_NAMES[(NOTE_NAMES.indexOf(root) + scale.intervals[i]) % 12], noteNaming, spelling)})
+          </span>
+        ))}
+      </div>
+
+      {view === 'quiz' && (
+        <div style={{ textAlign: 'center', fontSize: 20, color: 'var(--on-surface)' }}>
+          {boxQuiz ? (
+            <p style={{ margin: '8px 0', fontWeight: 500 }}>
+              {quizFinished
+                ? `🎉 ${getBoxName(boxQuiz.box, scale)} complete${mistakes.length > 0 ? ` with ${mistakes.length} mistake${mistakes.length > 1 ? 's' : ''}` : ' with no mistakes'}!`
+                : `Tap the ${boxQuiz.missing.length - found.length} missing note${boxQuiz.missing.length - found.length > 1 ? 's' : ''} of the ${getBoxName(boxQuiz.box, scale)}`}
+            </p>
+          ) : (
+            <p style={{ margin: '8px 0', color: '#888' }}>
+              Complete a {quizSystem === 'caged' ? 'CAGED' : 'notes-per-string'} box of {convertNoteToDisplay(root, noteNaming, spelling)} {scale.name}
+            </p>
+          )}
+          {boxQuiz === null && getAllBoxes(scale).every((box) => box.system !== quizSystem || getBoxPositions(strings, fretCount, root, scale, box).length === 0) ? (
+            <p style={{ color: 'var(--error)' }}>No box of this type fits on the neck.</p>
+          ) : (
+            <button
+              onClick={startBoxQuiz}
+              style={{
+                padding: '12px 24px',
+                fontSize: 18,
+                background: 'var(--primary)',
+                color: 'var(--on-primary)',
+                border: 'none',
+                borderRadius: 'var(--radius)',
+                cursor: 'pointer',
+                fontWeight: 600,
+                boxShadow: 'var(--shadow)',
+                transition: 'background 0.2s',
+              }}
+              onMouseOver={e => (e.currentTarget.style.background = 'var(--secondary)')}
+              onMouseOut={e => (e.currentTarget.style.background = 'var(--primary)')}
+            >
+              {boxQuiz ? '🔀 Next box' : '🎯 Start'}
+            </button>
+          )}
+          {boxesCompleted > 0 && (
+            <p style={{ fontSize: 14, color: '#888' }}>Boxes completed this session: {boxesCompleted}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScaleExplorer;
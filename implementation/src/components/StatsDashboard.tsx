@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import {
+  getAccuracyTrend,
+  getLevelUpTimes,
+  getRangeDates,
+  getResponseTimeTrend,
+  getRoundsPerLevel,
+  summarize,
+  type History,
+  type StatsRange,
+} from '../stats';
+import { formatReactionTime } from '../scoring';
+import type { AnswerRecord } from '../answerLog';
+
+interface StatsDashboardProps {
+  history: History;
+  answers: AnswerRecord[]; // Logged answers of the track and tuning, see answerLog.ts
+  today: string;
+}
+
+const RANGES: { id: StatsRange; label: string }[] = [
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+  { id: 'year', label: 'Year' },
+  { id: 'all', label: 'All time' },
+];
+
+const CELL_SIZE = 14;
+const CELL_GAP = 3;
+const TREND_WIDTH = 600;
+const TREND_HEIGHT = 160;
+
+// Green shade of a calendar day by rounds played, relative to the busiest day
+function getDayColor(rounds: number, maxRounds: number): string {
+  if (rounds === 0) return 'var(--border)';
+  const share = rounds / maxRounds;
+  return `rgba(76, 175, 80, ${0.3 + 0.7 * share})`;
+}
+
+// Dates split into calendar weeks (Sunday first); days outside the range are null
+function getWeeks(dates: string[]): (string | null)[][] {
+  const weeks: (string | null)[][] = [];
+  let week: (string | null)[] = Array(new Date(`${dates[0]}T00:00:00`).getDay()).fill(null);
+  for (const date of dates) {
+    week.push(date);
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+  if (week.length > 0) weeks.push([...week, ...Array(7 - week.length).fill(null)]);
+  return weeks;
+}
+
+// Stats view: totals, a practice calendar, the accuracy and response time trends, rounds per
+// level and the time each level-up took, for the last week, month, year or all recorded days
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ history, answers, today }) => {
+  const [range, setRange] = useState<StatsRange>('month');
+  const dates = getRangeDates(range, history, today);
+  const summary = summarize(history, dates);
+  const trend = getAccuracyTrend(history, dates);
+  const responseTrend = getResponseTimeTrend(answers, dates);
+  const maxMedian = Math.max(1, ...responseTrend.map((r) => r.median));
+  const roundsPerLevel = getRoundsPerLevel(history, dates);
+  const maxLevelRounds = Math.max(1, ...roundsPerLevel.map((r) => r.rounds));
+  const levelUps = getLevelUpTimes(history).filter((l) => l.date >= dates[0]);
+  const maxDayRounds = Math.max(1, ...dates.map((d) => history[d]?.rounds ?? 0));
+  const weeks = getWeeks(dates);
+
+  const buttonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '6px 16px',
+    fontSize: 16,
+    background: active ? 'var(--primary)' : 'var(--surface)',
+    color: active ? 'var(--on-primary)' : 'var(--on-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius)',
+    cursor: 'pointer',
+    fontWeight: active ? 600 : 400,
+  });
+  const cardStyle: React.CSSProperties = {
+    background: 'var(--surface)',
+    borderRadius: 'var(--radius)',
+    boxShadow: 'var(--shadow)',
+    padding: 16,
+    marginBottom: 16,
+  };
+  const headingStyle: React.CSSProperties = { margin: '0 0 12px 0', fontSize: 18 };
+  const emptyStyle: React.CSSProperties = { fontSize: 14, color: '#888', margin: 0 };
+
+  const totals = [
+    { label: 'Days practiced', value: summary.daysPracticed },
+    { label: 'Rounds', value: summary.rounds },
+    { label: 'Questions', value: summary.questions },
+    { label: 'Accuracy', value: summary.questions > 0 ? `${Math.round((summary.correct / summary.questions) * 100)}%` : '–' },
+    { label: 'Points', value: summary.score },
+  ];
+
+  // Trend lines: x by position among the `count` days with answers, y by a 0..1 value
+  const toPoint = (i: number, value: number, count: number = trend.length) => {
+    const x = count > 1 ? (i / (count - 1)) * TREND_WIDTH : TREND_WIDTH / 2;
+    return `${x.toFixed(1)},${((1 - value) * TREND_HEIGHT).toFixed(1)}`;
+  };
+
+  return (
+    <div style={{ maxWidth: 900, margin: '0 auto', padding: '0 16px', color: 'var(--on-surface)' }}>
+      <div style={{ display: 'flex', justifyContent: 'center', gap: 8, marginBottom: 16 }}>
+        {RANGES.map((r) => (
+          <button key={r.id} style={buttonStyle(range === r.id)} onClick={() => setRange(r.id)}>
+            {r.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: 12, marginBottom: 16 }}>
+        {totals.map((t) => (
+          <div key={t.label} style={{ ...cardStyle, marginBottom: 0, textAlign: 'center' }}>
+            <div style={{ fontSize: 14, color: '#888' }}>{t.label}</div>
+            <div style={{ fontSize: 24, fontWeight: 600, marginTop: 6 }}>{t.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>Practice calendar</h3>
+        <div style={{ display: 'flex', gap: CELL_GAP, overflowX: 'auto', paddingBottom: 4 }}>
+          {weeks.map((week, w) => (
+            <div key={w} style={{ display: 'flex', flexDirection: 'column', gap: CELL_GAP }}>
+              {week.map((date, d) => {
+                const day = date ? history[date] : undefined;
+                return (
+                  <div
+                    key={d}
+                    title={date ? `${date}: ${day?.rounds ?? 0} rounds, ${day?.score ?? 0} points` : undefined}
+                    style={{
+                      width: CELL_SIZE,
+                      height: CELL_SIZE,
+                      borderRadius: 3,
+                      background: date ? getDayColor(day?.rounds ?? 0, maxDayRounds) : 'transparent',
+                    }}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>Accuracy trend</h3>
+        {trend.length === 0 ? (
+          <p style={emptyStyle}>No answers in this period yet.</p>
+        ) : (
+          <>
+            <svg viewBox={`-6 -6 ${TREND_WIDTH + 12} ${TREND_HEIGHT + 12}`} style={{ width: '100%', height: 'auto' }}>
+              {[0, 0.5, 1].map((y) => (
+                <line key={y} x1={0} x2={TREND_WIDTH} y1={(1 - y) * TREND_HEIGHT} y2={(1 - y) * TREND_HEIGHT} stroke="var(--border)" strokeDasharray="4 4" />
+              ))}
+              <polyline
+                points={trend.map((t, i) => toPoint(i, t.accuracy)).join(' ')}
+                fill="none"
+                stroke="var(--primary)"
+                strokeWidth={1.5}
+                opacity={0.5}
+              />
+              <polyline points={trend.map((t, i) => toPoint(i, t.average)).join(' ')} fill="none" stroke="#4caf50" strokeWidth={3} />
+              {trend.map((t, i) => {
+                const [cx, cy] = toPoint(i, t.accuracy).split(',');
+                return (
+                  <circle key={t.date} cx={cx} cy={cy} r={3} fill="var(--primary)">
+                    <title>{`${t.date}: ${Math.round(t.accuracy * 100)}% (7-day average ${Math.round(t.average * 100)}%)`}</title>
+                  </circle>
+                );
+              })}
+            </svg>
+            <p style={{ ...emptyStyle, textAlign: 'center', marginTop: 8 }}>
+              <span style={{ color: 'var(--primary)' }}>●</span> Daily accuracy &nbsp;
+              <span style={{ color: '#4caf50' }}>━</span> Average of the last 7 practice days
+            </p>
+          </>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>Response time</h3>
+        {responseTrend.length === 0 ? (
+          <p style={emptyStyle}>No logged answers in this period yet.</p>
+        ) : (
+          <>
+            <svg viewBox={`-6 -6 ${TREND_WIDTH + 12} ${TREND_HEIGHT + 12}`} style={{ width: '100%', height: 'auto' }}>
+              <line x1={0} x2={TREND_WIDTH} y1={TREND_HEIGHT} y2={TREND_HEIGHT} stroke="var(--border)" strokeDasharray="4 4" />
+              <polyline
+                points={responseTrend.map((r, i) => toPoint(i, 1 - r.median / maxMedian, responseTrend.length)).join(' ')}
+                fill="none"
+                stroke="var(--secondary)"
+                strokeWidth={3}
+              />
+              {responseTrend.map((r, i) => {
+                const [cx, cy] = toPoint(i, 1 - r.median / maxMedian, responseTrend.length).split(',');
+                return (
+                  <circle key={r.date} cx={cx} cy={cy} r={3} fill="var(--secondary)">
+                    <title>{`${r.date}: median ${formatReactionTime(r.median)} over ${r.answers} answers`}</title>
+                  </circle>
+                );
+              })}
+            </svg>
+            <p style={{ ...emptyStyle, textAlign: 'center', marginTop: 8 }}>
+              Median response time per practice day, faster higher (slowest day {formatReactionTime(maxMedian)})
+            </p>
+          </>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>Rounds per level</h3>
+        {roundsPerLevel.length === 0 ? (
+          <p style={emptyStyle}>No rounds completed in this period yet.</p>
+        ) : (
+          roundsPerLevel.map((r) => (
+            <div key={r.level} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+              <span style={{ width: 70, fontSize: 14 }}>Level {r.level}</span>
+              <div style={{ flex: 1, height: 14, background: 'var(--border)', borderRadius: 7, overflow: 'hidden' }}>
+                <div style={{ width: `${(r.rounds / maxLevelRounds) * 100}%`, height: '100%', background: 'var(--secondary)' }} />
+              </div>
+              <span style={{ width: 40, fontSize: 14, textAlign: 'right' }}>{r.rounds}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <h3 style={headingStyle}>Time to level up</h3>
+        {levelUps.length === 0 ? (
+          <p style={emptyStyle}>No level-ups in this period yet.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: '#888' }}>
+                <th style={{ padding: 4 }}>Level reached</th>
+                <th style={{ padding: 4 }}>On</th>
+                <th style={{ padding: 4 }}>Days taken</th>
+                <th style={{ padding: 4 }}>Rounds at the level below</th>
+              </tr>
+            </thead>
+            <tbody>
+              {levelUps.map((l, i) => (
+                <tr key={i} style={{ borderTop: '1px solid var(--border)' }}>
+                  <td style={{ padding: 4 }}>{l.level}</td>
+                  <td style={{ padding: 4 }}>{l.date}</td>
+                  <td style={{ padding: 4 }}>{l.days}</td>
+                  <td style={{ padding: 4 }}>{l.rounds}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { Profile } from '../profiles';
+
+interface StorageVersionNoticeProps {
+  profiles: Profile[];
+}
+
+// Shown instead of the app when saved data comes from a newer version of it, which this
+// version can't read: starting anyway would overwrite that data.
+const StorageVersionNotice: React.FC<StorageVersionNoticeProps> = ({ profiles }) => (
+  <div
+    role="alert"
+    style={{
+      maxWidth: 480,
+      margin: '64px auto',
+      padding: 24,
+      background: 'var(--surface)',
+      color: 'var(--on-surface)',
+      border: '1px solid var(--border)',
+      borderRadius: 'var(--radius)',
+      textAlign: 'center',
+    }}
+  >
+    <h2 style={{ marginTop: 0 }}>Saved progress is from a newer version</h2>
+    <p>
+      The progress of {profiles.map((p) => p.name).join(', ')} was saved by a newer version of Fretboard-King.
+      To keep it safe, this version won't start. Reload the page to get the latest version.
+    </p>
+  </div>
+);
+
+export default StorageVersionNotice;
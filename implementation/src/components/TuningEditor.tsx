@@ -0,0 +1,53 @@
+import React from 'react';
+import { NOTE_NAMES, convertNoteToDisplay, type NoteNaming, type NoteSpelling } from '../notes';
+
+interface TuningEditorProps {
+  strings: string[];
+  noteNaming: NoteNaming;
+  spelling: NoteSpelling;
+  onChange: (strings: string[]) => void;
+}
+
+// Custom tuning editor: one note picker per string, 1st string (highest) first like the fretboard
+const TuningEditor: React.FC<TuningEditorProps> = ({ strings, noteNaming, spelling, onChange }) => {
+  function handleStringChange(stringIdx: number, note: string) {
+    onChange(strings.map((n, i) => (i === stringIdx ? note : n)));
+  }
+
+  return (
+    <div
+      style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(3, 1fr)',
+        gap: 8,
+        marginBottom: 14,
+      }}
+    >
+      {strings.map((note, sIdx) => (
+        <label key={sIdx} style={{ fontSize: 14, display: 'flex', alignItems: 'center', gap: 6 }}>
+          <span style={{ color: '#888', minWidth: 24 }}>{sIdx + 1}.</span>
+          <select
+            aria-label={`String ${sIdx + 1} open note`}
+            value={note}
+            onChange={(e) => handleStringChange(sIdx, e.target.value)}
+            style={{
+              padding: '4px 8px',
+              fontSize: 14,
+              background: 'var(--surface)',
+              color: 'var(--on-surface)',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius)',
+              cursor: 'pointer',
+            }}
+          >
+            {NOTE_NAMES.map((n) => (
+              <option key={n} value={n}>{convertNoteToDisplay(n, noteNaming, spelling)}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default TuningEditor;
@@ -0,0 +1,149 @@
+// Curricula: note level ladders declared as data, so teachers can author their own
+// ("natural notes only on strings 3-4", "frets 5-9 only") and share them as JSON files.
+// The built-in ladder is generated in the same shape, see getBuiltInLevels in engine.ts.
+
+import { isPlainObject } from './storage';
+
+// Notes asked at a level: every note, natural notes only, or sharps/flats only
+export type NoteFilter = 'all' | 'natural' | 'accidental';
+
+export interface LevelDefinition {
+  section: string; // Level map section; consecutive levels with the same section are grouped
+  strings: number[]; // String indices in play (0 = 1st string), lowest first or in any order
+  minFret: number; // Fret window, inclusive
+  maxFret: number;
+  notes: NoteFilter;
+  questions: number; // Questions per round
+  passScore: number; // Correct answers needed to pass the round and level up
+  review: boolean; // Review level, marked as a repetition level on the map
+}
+
+export interface Curriculum {
+  id: string;
+  name: string;
+  levels: LevelDefinition[];
+}
+
+// The built-in ladder's id in settings; custom curricula get generated ids
+export const BUILT_IN_CURRICULUM_ID = 'built-in';
+
+export const NOTE_FILTER_LABELS: Record<NoteFilter, string> = {
+  all: 'All notes',
+  natural: 'Natural notes only',
+  accidental: 'Sharps/flats only',
+};
+
+const MAX_STRINGS = 12;
+const MAX_FRET = 24;
+const MAX_QUESTIONS = 100;
+
+export function matchesNoteFilter(note: string, filter: NoteFilter): boolean {
+  if (filter === 'natural') return !note.includes('#');
+  if (filter === 'accidental') return note.includes('#');
+  return true;
+}
+
+export function createCurriculumId(): string {
+  return `c${Date.now().toString(36)}`;
+}
+
+// A new level: every string of the instrument, frets 0-4, every note
+export function createLevel(stringCount: number, section: string = 'Section 1'): LevelDefinition {
+  return {
+    section,
+    strings: Array.from({ length: stringCount }, (_, i) => i),
+    minFret: 0,
+    maxFret: 4,
+    notes: 'all',
+    questions: 15,
+    passScore: 12,
+    review: false,
+  };
+}
+
+// A short description of what a level asks, e.g. "2 strings (5, 6), 5 frets (5-9), natural notes only"
+export function describeLevel(level: LevelDefinition, stringCount: number): string {
+  const strings = level.strings.filter((s) => s < stringCount).sort((a, b) => a - b);
+  // The built-in ladder unlocks strings from the lowest up; other sets are listed
+  const fromLowest = strings.length > 0 && strings[strings.length - 1] === stringCount - 1
+    && strings.every((s, i) => i === 0 || s === strings[i - 1] + 1);
+  const stringLabel = `${strings.length} string${strings.length === 1 ? '' : 's'}${fromLowest ? '' : ` (${strings.map((s) => s + 1).join(', ')})`}`;
+  const frets = level.maxFret - level.minFret + 1;
+  const fretLabel = `${frets} fret${frets === 1 ? '' : 's'}${level.minFret > 0 ? ` (${level.minFret}-${level.maxFret})` : ''}`;
+  const noteLabel = level.notes === 'all' ? '' : `, ${NOTE_FILTER_LABELS[level.notes].toLowerCase()}`;
+  return `${stringLabel}, ${fretLabel}${noteLabel}`;
+}
+
+// A curriculum file that can't be imported; the message is meant for the player
+export class CurriculumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurriculumError';
+  }
+}
+
+// Curriculum files: the curriculum without its local id, tagged like progress exports
+export const CURRICULUM_FILE_VERSION = 1;
+const APP_ID = 'fretboard-king';
+
+export interface CurriculumFile {
+  app: string;
+  kind: 'curriculum';
+  version: number;
+  name: string;
+  levels: LevelDefinition[];
+}
+
+export function exportCurriculum(curriculum: Curriculum): CurriculumFile {
+  return { app: APP_ID, kind: 'curriculum', version: CURRICULUM_FILE_VERSION, name: curriculum.name, levels: curriculum.levels };
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// Check one level; returns what is wrong with it, or null
+function getLevelError(level: unknown): string | null {
+  if (!isPlainObject(level)) return 'is not an object';
+  const { section, strings, minFret, maxFret, notes, questions, passScore, review } = level;
+  if (typeof section !== 'string') return 'has no section name';
+  if (!Array.isArray(strings) || strings.length === 0 || !strings.every((s) => isInteger(s, 0, MAX_STRINGS - 1))) {
+    return 'needs at least one string';
+  }
+  if (!isInteger(minFret, 0, MAX_FRET) || !isInteger(maxFret, minFret, MAX_FRET)) {
+    return `needs a fret window within 0-${MAX_FRET}`;
+  }
+  if (typeof notes !== 'string' || !(notes in NOTE_FILTER_LABELS)) return 'has an unknown note filter';
+  if (!isInteger(questions, 1, MAX_QUESTIONS)) return `needs 1-${MAX_QUESTIONS} questions`;
+  if (!isInteger(passScore, 1, questions)) return 'needs a pass score between 1 and its question count';
+  if (typeof review !== 'boolean') return 'has an invalid review flag';
+  return null;
+}
+
+// Parse and validate a shared curriculum file; throws CurriculumError explaining what is wrong.
+// The curriculum gets a new local id.
+export function parseCurriculum(text: string): Curriculum {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new CurriculumError('This file is not valid JSON.');
+  }
+  if (!isPlainObject(file) || file.app !== APP_ID || file.kind !== 'curriculum') {
+    throw new CurriculumError('This file is not a Fretboard-King curriculum.');
+  }
+  if (typeof file.version !== 'number' || file.version > CURRICULUM_FILE_VERSION) {
+    throw new CurriculumError(`The curriculum is version ${String(file.version)}, but this app only reads up to version ${CURRICULUM_FILE_VERSION}.`);
+  }
+  if (typeof file.name !== 'string' || file.name.trim() === '') {
+    throw new CurriculumError('The curriculum has no name.');
+  }
+  if (!Array.isArray(file.levels) || file.levels.length === 0) {
+    throw new CurriculumError('The curriculum has no levels.');
+  }
+  file.levels.forEach((level, i) => {
+    const error = getLevelError(level);
+    if (error) throw new CurriculumError(`Level ${i} of the curriculum ${error}.`);
+  });
+  return { id: createCurriculumId(), name: file.name.trim(), levels: file.levels as LevelDefinition[] };
+}
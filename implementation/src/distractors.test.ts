@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DISTRACTOR_LABELS,
+  OPTION_COUNTS,
+  getDistractorCandidates,
+  pickOptions,
+  recordConfusion,
+  type ConfusionMap,
+  type DistractorStrategy,
+} from './distractors';
+import { NOTE_NAMES, getNoteName, getOptionNote, getTrapOption, isTrapOption } from './notes';
+
+// Seeded RNG (a linear congruential generator), so every run picks the same options
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+}
+
+const GUITAR = ['E', 'B', 'G', 'D', 'A', 'E'];
+const STRATEGIES = Object.keys(DISTRACTOR_LABELS) as DistractorStrategy[];
+const NATURAL_NOTES = NOTE_NAMES.filter((n) => !n.includes('#'));
+
+let confusions: ConfusionMap = {};
+for (const [note, answer] of [['E', 'F'], ['E', 'F'], ['E', 'D#'], ['G', 'A'], ['C', 'B']]) {
+  confusions = recordConfusion(confusions, note, answer);
+}
+
+// Options for every cell of the neck's first 12 frets
+function pickForEveryCell(strategy: DistractorStrategy, count: number, withTrap: boolean, pool: string[] = NOTE_NAMES) {
+  const random = createRandom(count * 10 + (withTrap ? 1 : 0));
+  return GUITAR.flatMap((open, stringIdx) => Array.from({ length: 12 }, (_, fretIdx) => {
+    const correctNote = getNoteName(open, fretIdx);
+    const candidates = getDistractorCandidates(strategy, { stringIdx, fretIdx }, GUITAR, confusions, random);
+    const extra = withTrap ? [getTrapOption(correctNote)] : [];
+    return { correctNote, options: pickOptions(correctNote, count, candidates, pool, random, extra) };
+  }));
+}
+
+describe('pickOptions', () => {
+  for (const strategy of STRATEGIES) {
+    for (const count of OPTION_COUNTS) {
+      for (const withTrap of [false, true]) {
+        it(`gives ${count} unique options with the correct note: ${strategy}${withTrap ? ', with a trap' : ''}`, () => {
+          for (const { correctNote, options } of pickForEveryCell(strategy, count, withTrap)) {
+            expect(options).toContain(correctNote);
+            expect(new Set(options).size).toBe(options.length);
+            expect(options.filter(isTrapOption)).toHaveLength(withTrap ? 1 : 0);
+            // Every note when all 12 are asked for, the trap included on top
+            expect(options).toHaveLength(count === 12 && withTrap ? 13 : count);
+            options.filter((o) => !isTrapOption(o)).forEach((o) => expect(NOTE_NAMES).toContain(o));
+          }
+        });
+      }
+    }
+  }
+
+  it('offers every note in chromatic order, a trap right after its note', () => {
+    const options = pickOptions('A#', 12, [], NOTE_NAMES, createRandom(1), [getTrapOption('A#')]);
+    expect(options).toEqual([...NOTE_NAMES.slice(0, 11), getTrapOption('A#'), 'B']);
+  });
+
+  it('takes wrong notes from the pool only', () => {
+    for (const count of OPTION_COUNTS) {
+      for (const { correctNote, options } of pickForEveryCell('adjacent', count, false, NATURAL_NOTES)) {
+        options.filter((o) => o !== correctNote).forEach((o) => expect(NATURAL_NOTES).toContain(getOptionNote(o)));
+        expect(options).toHaveLength(Math.min(count, NATURAL_NOTES.length + (NATURAL_NOTES.includes(correctNote) ? 0 : 1)));
+      }
+    }
+  });
+
+  it('prefers the best ranked candidates', () => {
+    expect(pickOptions('E', 3, ['F', 'D#', 'G'], NOTE_NAMES, createRandom(1)).sort()).toEqual(['D#', 'E', 'F']);
+  });
+});
+
+describe('getDistractorCandidates', () => {
+  const random = createRandom(3);
+
+  it('ranks adjacent semitones first', () => {
+    // 6th string, 3rd fret: G
+    expect(getDistractorCandidates('adjacent', { stringIdx: 5, fretIdx: 3 }, GUITAR, {}, random).slice(0, 2).sort()).toEqual(['F#', 'G#']);
+  });
+
+  it('ranks the neighbouring strings at the same fret first', () => {
+    // 3rd string, 2nd fret: A; neighbours are B string (C#) and D string (E)
+    const candidates = getDistractorCandidates('stringOver', { stringIdx: 2, fretIdx: 2 }, GUITAR, {}, random);
+    expect(candidates.slice(0, 2).sort()).toEqual(['C#', 'E']);
+  });
+
+  it('ranks the most confused notes first', () => {
+    // 1st string, open: E, mistaken for F twice and D# once
+    expect(getDistractorCandidates('confused', { stringIdx: 0, fretIdx: 0 }, GUITAR, confusions, random)).toEqual(['F', 'D#']);
+  });
+
+  it('leaves random options to pickOptions', () => {
+    expect(getDistractorCandidates('random', { stringIdx: 0, fretIdx: 0 }, GUITAR, confusions, random)).toEqual([]);
+  });
+});
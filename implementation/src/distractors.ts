@@ -0,0 +1,104 @@
+import { NOTE_NAMES, getNoteName, getOptionNote, isTrapOption } from './notes';
+import type { FretPosition } from './components/Fretboard';
+
+// Wrong answer options of note questions. A strategy ranks the notes that make good distractors
+// for a question; the options take the best ranked ones and fill up with random notes.
+
+// Adjacent semitones, the note one string over at the same fret, the notes the player has
+// mistaken for this one before, or any notes
+export type DistractorStrategy = 'adjacent' | 'stringOver' | 'confused' | 'random';
+
+export const DISTRACTOR_LABELS: Record<DistractorStrategy, string> = {
+  adjacent: 'Adjacent semitones',
+  stringOver: 'Same fret, neighbouring strings',
+  confused: 'Notes I confuse',
+  random: 'Random notes',
+};
+
+// Options per note question, the correct one included; 12 offers every note (and a trap, if any)
+export const OPTION_COUNTS = [3, 4, 6, 12];
+
+// Wrong answers per asked note: { [correctNote]: { [answeredNote]: count } }
+export type ConfusionMap = { [note: string]: { [answer: string]: number } };
+
+export function recordConfusion(confusions: ConfusionMap, note: string, answer: string): ConfusionMap {
+  const answers = confusions[note] ?? {};
+  return { ...confusions, [note]: { ...answers, [answer]: (answers[answer] ?? 0) + 1 } };
+}
+
+// Notes ordered by closeness in pitch to `note`, nearest first; notes as far above as below in random order
+function getNotesByPitchDistance(note: string, random: () => number): string[] {
+  const pitch = NOTE_NAMES.indexOf(note);
+  const notes: string[] = [];
+  for (let distance = 1; distance <= 6; distance++) {
+    const pair = [NOTE_NAMES[(pitch + distance) % 12], NOTE_NAMES[(pitch - distance + 12) % 12]];
+    notes.push(...(random() < 0.5 ? pair : pair.reverse()));
+  }
+  return notes;
+}
+
+// Notes at the asked fret on the other strings, nearest string first
+function getNotesAtFret({ stringIdx, fretIdx }: FretPosition, strings: string[]): string[] {
+  return strings
+    .map((open, s) => ({ note: getNoteName(open, fretIdx), distance: Math.abs(s - stringIdx) }))
+    .filter(({ distance }) => distance > 0)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ note }) => note);
+}
+
+// Distractor candidates for a question, best first; may contain repeats and the correct note
+export function getDistractorCandidates(
+  strategy: DistractorStrategy,
+  position: FretPosition,
+  strings: string[],
+  confusions: ConfusionMap,
+  random: () => number,
+): string[] {
+  const note = getNoteName(strings[position.stringIdx], position.fretIdx);
+  switch (strategy) {
+    case 'adjacent':
+      return getNotesByPitchDistance(note, random);
+    case 'stringOver':
+      return getNotesAtFret(position, strings);
+    case 'confused':
+      return Object.entries(confusions[note] ?? {})
+        .sort((a, b) => b[1] - a[1])
+        .map(([answer]) => answer);
+    default:
+      return [];
+  }
+}
+
+// The answer options: the correct note, the given extra options (enharmonic traps), the best
+// candidates from `pool` and random notes of `pool` for the rest, without repeats and shuffled.
+// A count that covers the whole pool offers every note of it plus the extra options, in
+// chromatic order.
+export function pickOptions(
+  correctNote: string,
+  count: number,
+  candidates: string[],
+  pool: string[],
+  random: () => number,
+  extra: string[] = [],
+): string[] {
+  const options = [correctNote, ...extra];
+  const wrongNotes = pool.filter((n) => n !== correctNote);
+  const size = count > wrongNotes.length ? options.length + wrongNotes.length : count;
+  for (const n of candidates) {
+    if (options.length >= size) break;
+    if (wrongNotes.includes(n) && !options.includes(n)) options.push(n);
+  }
+  while (options.length < size) {
+    const n = wrongNotes[Math.floor(random() * wrongNotes.length)];
+    if (!options.includes(n)) options.push(n);
+  }
+  if (wrongNotes.every((n) => options.includes(n))) {
+    return options.sort((a, b) => getChromaticIndex(a) - getChromaticIndex(b));
+  }
+  return options.sort(() => random() - 0.5);
+}
+
+// Position of an option in the chromatic scale; a trap sorts right after its note
+function getChromaticIndex(option: string): number {
+  return NOTE_NAMES.indexOf(getOptionNote(option)) + (isTrapOption(option) ? 0.5 : 0);
+}
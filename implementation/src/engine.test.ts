@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ROUND_RULES,
+  FRETS,
+  createIdleRound,
+  createRoundEngine,
+  getBaseMaxLevel,
+  getBuiltInLevels,
+  getLevelCells,
+  getLevelConstraints,
+  getMaxLevel,
+  getNextWindow,
+  getQuizForPosition,
+  getRandomQuiz,
+  getRoundOutcome,
+  type Random,
+  type RoundState,
+} from './engine';
+import { getNoteName } from './notes';
+import { isRepetitionLevel } from './levels';
+
+// Seeded RNG (mulberry32), so every run asks the same questions
+function createRandom(seed: number): Random {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A clock the test moves forward by hand
+function createClock() {
+  let now = 0;
+  return { clock: () => now, advance: (ms: number) => (now += ms) };
+}
+
+const GUITAR = ['E', 'B', 'G', 'D', 'A', 'E'];
+const INSTRUMENTS = [
+  { name: '4-string bass', strings: ['G', 'D', 'A', 'E'] },
+  { name: '6-string guitar', strings: GUITAR },
+  { name: '8-string guitar', strings: ['E', 'B', 'G', 'D', 'A', 'E', 'B', 'F#'] },
+];
+
+describe('getLevelConstraints', () => {
+  it('starts with the lowest string, frets 0-1', () => {
+    expect(getLevelConstraints(0, 6, FRETS)).toEqual({ minString: 5, minFret: 0, maxFret: 1 });
+  });
+
+  it('unlocks everything by the end of the base ladder', () => {
+    expect(getLevelConstraints(getBaseMaxLevel(6), 6, FRETS)).toEqual({ minString: 0, minFret: 0, maxFret: FRETS - 1 });
+  });
+
+  it('never shrinks from one regular level to the next', () => {
+    const regular = Array.from({ length: getBaseMaxLevel(6) + 1 }, (_, level) => level).filter((l) => !isRepetitionLevel(l));
+    for (let i = 1; i < regular.length; i++) {
+      const prev = getLevelConstraints(regular[i - 1], 6, FRETS);
+      const next = getLevelConstraints(regular[i], 6, FRETS);
+      expect(next.minString).toBeLessThanOrEqual(prev.minString);
+      expect(next.maxFret).toBeGreaterThanOrEqual(prev.maxFret);
+    }
+  });
+
+  it('covers the levels before a repetition level', () => {
+    const review = getLevelConstraints(2, 6, FRETS);
+    for (const level of [0, 1]) {
+      const c = getLevelConstraints(level, 6, FRETS);
+      expect(review.minString).toBeLessThanOrEqual(c.minString);
+      expect(review.maxFret).toBeGreaterThanOrEqual(c.maxFret);
+    }
+  });
+
+  it('moves into the upper register on longer necks, ending with the whole neck', () => {
+    const first = getLevelConstraints(getBaseMaxLevel(6) + 1, 6, 24);
+    expect(first).toEqual({ minString: 0, minFret: FRETS, maxFret: FRETS + 2 });
+    expect(getLevelConstraints(getMaxLevel(6, 24), 6, 24)).toEqual({ minString: 0, minFret: 0, maxFret: 24 });
+    expect(getMaxLevel(6, FRETS)).toBe(getBaseMaxLevel(6));
+  });
+});
+
+describe('getBuiltInLevels', () => {
+  it('defines every level with the constraints of the ladder', () => {
+    const levels = getBuiltInLevels(6, 24);
+    expect(levels).toHaveLength(getMaxLevel(6, 24) + 1);
+    levels.forEach((definition, level) => {
+      const { minString, minFret, maxFret } = getLevelConstraints(level, 6, 24);
+      expect(definition.strings).toEqual(Array.from({ length: 6 - minString }, (_, i) => minString + i));
+      expect([definition.minFret, definition.maxFret]).toEqual([minFret, maxFret]);
+      expect(definition.questions).toBe(DEFAULT_ROUND_RULES.questions);
+      expect(definition.review).toBe(isRepetitionLevel(level));
+    });
+  });
+});
+
+describe('getLevelCells', () => {
+  const level = { ...getBuiltInLevels(6, FRETS)[0], strings: [5], minFret: 0, maxFret: 3 };
+
+  it('keeps the cells whose notes pass the filter', () => {
+    expect(getLevelCells({ ...level, notes: 'natural' }, GUITAR, FRETS)).toEqual([
+      { stringIdx: 5, fretIdx: 0 },
+      { stringIdx: 5, fretIdx: 1 },
+      { stringIdx: 5, fretIdx: 3 },
+    ]);
+    expect(getLevelCells({ ...level, notes: 'accidental' }, GUITAR, FRETS)).toEqual([{ stringIdx: 5, fretIdx: 2 }]);
+  });
+
+  it('falls back to the whole neck when the instrument lacks the level strings', () => {
+    expect(getLevelCells(level, ['G', 'D', 'A', 'E'], FRETS)).toHaveLength(4 * (FRETS + 1));
+  });
+});
+
+describe('getRandomQuiz', () => {
+  for (const { name, strings } of INSTRUMENTS) {
+    for (const fretCount of [FRETS, 24]) {
+      it(`only asks positions inside each level on a ${name} with ${fretCount} frets`, () => {
+        const random = createRandom(strings.length * 100 + fretCount);
+        getBuiltInLevels(strings.length, fretCount).forEach((definition) => {
+          for (let i = 0; i < 50; i++) {
+            const quiz = getRandomQuiz(definition, strings, fretCount, {}, random);
+            expect(definition.strings).toContain(quiz.stringIdx);
+            expect(quiz.fretIdx).toBeGreaterThanOrEqual(definition.minFret);
+            expect(quiz.fretIdx).toBeLessThanOrEqual(definition.maxFret);
+            expect(quiz.correctNote).toBe(getNoteName(strings[quiz.stringIdx], quiz.fretIdx));
+            expect(quiz.options).toContain(quiz.correctNote);
+            expect(new Set(quiz.options).size).toBe(quiz.options.length);
+          }
+        });
+      });
+    }
+  }
+
+  it('asks the same questions with the same seed', () => {
+    const definition = getBuiltInLevels(6, FRETS)[10];
+    const ask = (seed: number) => {
+      const random = createRandom(seed);
+      return Array.from({ length: 20 }, () => getRandomQuiz(definition, GUITAR, FRETS, {}, random));
+    };
+    expect(ask(42)).toEqual(ask(42));
+    expect(ask(42)).not.toEqual(ask(43));
+  });
+});
+
+describe('getQuizForPosition', () => {
+  it("lists every position of the note at the level, plus the asked cell if it lies outside", () => {
+    // Level 0: 6th string, frets 0-1; the high E string's open E is outside it
+    const quiz = getQuizForPosition({ stringIdx: 0, fretIdx: 0 }, getBuiltInLevels(6, FRETS)[0], GUITAR, FRETS, createRandom(1));
+    expect(quiz.correctNote).toBe('E');
+    expect(quiz.positions).toEqual([{ stringIdx: 5, fretIdx: 0 }, { stringIdx: 0, fretIdx: 0 }]);
+  });
+});
+
+describe('getNextWindow', () => {
+  it('moves the window one fret up the neck', () => {
+    expect(getNextWindow({ strings: [0, 1], minFret: 5, maxFret: 8 }, FRETS)).toEqual({ strings: [0, 1], minFret: 6, maxFret: 9 });
+  });
+
+  it('wraps back to the nut past the last fret', () => {
+    expect(getNextWindow({ strings: [0], minFret: 9, maxFret: 12 }, FRETS)).toEqual({ strings: [0], minFret: 0, maxFret: 3 });
+  });
+});
+
+describe('createRoundEngine', () => {
+  const rules = { questions: 3, passScore: 2 };
+
+  function playRound(answers: boolean[]): RoundState {
+    const { clock, advance } = createClock();
+    const engine = createRoundEngine({ random: createRandom(1), clock });
+    let round = engine.start(0, null, { questions: answers.length, passScore: 2 });
+    answers.forEach((correct) => {
+      advance(1000);
+      round = engine.next(engine.answer(round, correct, 5000));
+    });
+    return round;
+  }
+
+  it('goes idle → question → feedback → question ... → summary', () => {
+    const { clock, advance } = createClock();
+    const engine = createRoundEngine({ random: createRandom(1), clock });
+    expect(createIdleRound().phase).toBe('idle');
+    let round = engine.start(4, null, rules);
+    expect(round).toMatchObject({ phase: 'question', level: 4, questionCount: 3, passScore: 2, questionNum: 0 });
+    for (let q = 0; q < 3; q++) {
+      advance(800);
+      round = engine.answer(round, true, 5000);
+      expect(round.phase).toBe('feedback');
+      expect(round.lastAnswer).toMatchObject({ correct: true, time: 800 });
+      round = engine.next(round);
+      expect(round.phase).toBe(q < 2 ? 'question' : 'summary');
+    }
+    expect(round).toMatchObject({ correct: 3, streak: 3, times: [800, 800, 800] });
+    expect(engine.stop(round).phase).toBe('idle');
+  });
+
+  it('ignores answers outside the question phase, and next outside feedback', () => {
+    const engine = createRoundEngine({ random: createRandom(1), clock: () => 0 });
+    const idle = createIdleRound();
+    expect(engine.answer(idle, true, 5000)).toBe(idle);
+    const question = engine.start(0, null, rules);
+    expect(engine.next(question)).toBe(question);
+    const feedback = engine.answer(question, true, 5000);
+    expect(engine.answer(feedback, true, 5000)).toBe(feedback);
+    const summary = { ...feedback, phase: 'summary' as const };
+    expect(engine.answer(summary, false, 5000)).toBe(summary);
+  });
+
+  it('counts points and streaks only for correct answers', () => {
+    const round = playRound([true, false, true]);
+    expect(round.correct).toBe(2);
+    expect(round.streak).toBe(1);
+    expect(round.points).toBeGreaterThan(0);
+    expect(playRound([false, false]).points).toBe(0);
+  });
+
+  it('asks random questions from the level definition', () => {
+    const engine = createRoundEngine({ random: createRandom(7), clock: () => 0 });
+    const definition = getBuiltInLevels(6, FRETS)[0];
+    const question = engine.getQuestion(engine.start(0), 'notes', GUITAR, FRETS, definition);
+    expect(question.track).toBe('notes');
+    if (question.track === 'notes') expect(question.quiz.stringIdx).toBe(5);
+  });
+
+  it('asks the due cells of a review round in order', () => {
+    const engine = createRoundEngine({ random: createRandom(7), clock: () => 0 });
+    const positions = [{ stringIdx: 2, fretIdx: 7 }, { stringIdx: 0, fretIdx: 3 }];
+    const round = engine.start(0, { kind: 'review', positions });
+    const question = engine.getQuestion(round, 'notes', GUITAR, FRETS, getBuiltInLevels(6, FRETS)[0]);
+    if (question.track === 'notes') expect(question.quiz).toMatchObject(positions[0]);
+  });
+
+  it('asks the cells of a window round, whatever the level definition', () => {
+    const engine = createRoundEngine({ random: createRandom(7), clock: () => 0 });
+    const window = { strings: [1, 2], minFret: 5, maxFret: 8 };
+    const round = engine.start(0, { kind: 'window', window });
+    for (let i = 0; i < 20; i++) {
+      const question = engine.getQuestion(round, 'notes', GUITAR, FRETS, getBuiltInLevels(6, FRETS)[0]);
+      if (question.track !== 'notes') throw new Error('expected a note question');
+      expect(window.strings).toContain(question.quiz.stringIdx);
+      expect(question.quiz.fretIdx).toBeGreaterThanOrEqual(5);
+      expect(question.quiz.fretIdx).toBeLessThanOrEqual(8);
+    }
+  });
+});
+
+describe('getRoundOutcome', () => {
+  const finished = (level: number, correct: number, plan: RoundState['plan'] = null): RoundState => ({
+    ...createIdleRound(),
+    phase: 'summary',
+    level,
+    plan,
+    passScore: 12,
+    correct,
+  });
+
+  it('levels up a passed round at the player level', () => {
+    expect(getRoundOutcome(finished(3, 12), 3, 26)).toEqual({ passed: true, outcome: 'levelUp' });
+  });
+
+  it('keeps the player at the last level', () => {
+    expect(getRoundOutcome(finished(26, 15), 26, 26)).toEqual({ passed: true, outcome: 'maxLevel' });
+  });
+
+  it('treats a passed round below the player level as practice', () => {
+    expect(getRoundOutcome(finished(1, 13), 3, 26)).toEqual({ passed: true, outcome: 'practice' });
+  });
+
+  it('fails a round below the pass score', () => {
+    expect(getRoundOutcome(finished(3, 11), 3, 26)).toEqual({ passed: false, outcome: 'failed' });
+  });
+
+  it('never levels up on review, retry and window rounds', () => {
+    expect(getRoundOutcome(finished(3, 15, { kind: 'review', positions: [] }), 3, 26).outcome).toBe('review');
+    expect(getRoundOutcome(finished(3, 15, { kind: 'retry', questions: [] }), 3, 26).outcome).toBe('retry');
+    const window = { kind: 'window' as const, window: { minFret: 5, maxFret: 8, strings: [0, 1] } };
+    expect(getRoundOutcome(finished(3, 15, window), 3, 26)).toEqual({ passed: true, outcome: 'window' });
+  });
+});
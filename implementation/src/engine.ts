@@ -0,0 +1,423 @@
+import {
+  getProgressionLevel,
+  getRepetitionLevelAfterStep,
+  getRepetitionLevelRange,
+  isRepetitionLevel,
+} from './levels';
+import { getRandomIntervalQuiz, type IntervalQuiz } from './intervals';
+import { getRandomChordQuiz, type ChordQuiz } from './chords';
+import { NOTE_NAMES, getNoteName, getTrapOption } from './notes';
+import { pickWeightedPosition, type MasteryMap } from './mastery';
+import { getAnswerPoints } from './scoring';
+import { getDistractorCandidates, pickOptions, type ConfusionMap, type DistractorStrategy } from './distractors';
+import { matchesNoteFilter, type LevelDefinition } from './curriculum';
+import type { FretPosition } from './components/Fretboard';
+
+// Quiz and level engine: the built-in note level ladder, question generation from level definitions, the pass and level-up
+// rules and the round state machine, free of React and timers. Randomness and time come from
+// an injected RNG and clock, so a seeded engine replays the same round.
+
+// Random number in [0, 1), like Math.random
+export type Random = () => number;
+// Current time in ms, like performance.now
+export type Clock = () => number;
+
+export const FRETS = 12; // Frets covered by the base level ladder and the default neck length
+export const QUESTIONS_PER_ROUND = 15;
+
+// Practice tracks keep their own level ladder, scores and history.
+// Ear training walks the note ladder but keeps its own progress.
+export type ProgressTrack = 'notes' | 'intervals' | 'chords' | 'ear';
+
+// Strings and frets in play at a level: strings minString..last (the lowest), frets minFret..maxFret
+export interface LevelConstraints {
+  minString: number;
+  minFret: number;
+  maxFret: number;
+}
+
+// Regular (non-repetition) level steps for an instrument: how many strings are unlocked
+// (counted from the lowest string up) and the highest fret in play.
+// Start with the lowest string, frets 0-1, then alternate adding a fret and a string
+// (with one extra fret while on two strings) until every string is unlocked,
+// then add frets up to the 11th. For a 6-string guitar this yields:
+// Step 0: String 5 (6th string, low E), frets 0-1 (2 notes: E, F)
+// Step 1: String 5, frets 0-2 (adds 1 note: F#)
+// Step 2: Strings 4-5, frets 0-2 (adds new string with 3 notes: A, A#, B)
+// Step 3: Strings 4-5, frets 0-3 (adds 1 fret: G on string 5, C on string 4)
+// Step 4: Strings 4-5, frets 0-4
+// Step 5: Strings 3-5, frets 0-4 (adds new string)
+// ... and so on until all 6 strings and frets 0-11 are unlocked at step 15
+export function getLevelSteps(stringCount: number): { strings: number; maxFret: number }[] {
+  const lastFret = FRETS - 1;
+  let strings = 1;
+  let maxFret = 1;
+  const steps = [{ strings, maxFret }];
+  const addStep = () => steps.push({ strings, maxFret });
+  maxFret++;
+  addStep();
+  while (strings < stringCount) {
+    strings++;
+    addStep();
+    if (maxFret < lastFret) {
+      maxFret++;
+      addStep();
+    }
+    if (strings === 2 && maxFret < lastFret) {
+      maxFret++;
+      addStep();
+    }
+  }
+  while (maxFret < lastFret) {
+    maxFret++;
+    addStep();
+  }
+  return steps;
+}
+
+// Highest level of the base ladder: the repetition level that follows the last new step,
+// plus one consolidation section (2 levels + repetition) with everything unlocked.
+// For a 6-string guitar this is level 26.
+export function getBaseMaxLevel(stringCount: number): number {
+  return getRepetitionLevelAfterStep(getLevelSteps(stringCount).length - 1) + 3;
+}
+
+// Upper-register steps for necks longer than FRETS: all strings, a window starting at
+// the 12th fret that grows by two frets per step up to the end of the neck, and finally
+// the whole neck. A 24-fret neck yields 12-14, 12-16, 12-18, 12-20, 12-22, 12-24, 0-24.
+export function getUpperRegisterSteps(fretCount: number): { minFret: number; maxFret: number }[] {
+  if (fretCount <= FRETS) return [];
+  const steps = [];
+  for (let maxFret = FRETS + 2; maxFret < fretCount + 2; maxFret += 2) {
+    steps.push({ minFret: FRETS, maxFret: Math.min(maxFret, fretCount) });
+  }
+  steps.push({ minFret: 0, maxFret: fretCount });
+  return steps;
+}
+
+// Highest level overall: the base ladder, then the upper-register levels (with their own
+// repetition levels) up to the repetition level that follows the last upper step
+export function getMaxLevel(stringCount: number, fretCount: number): number {
+  const baseMaxLevel = getBaseMaxLevel(stringCount);
+  const upperSteps = getUpperRegisterSteps(fretCount).length;
+  if (upperSteps === 0) return baseMaxLevel;
+  return getRepetitionLevelAfterStep(upperSteps - 1, baseMaxLevel + 1);
+}
+
+// Level progression: determines which strings and frets are available at each level
+// Note: String indices follow instrument numbering (0 = 1st string/highest, stringCount - 1 = lowest string)
+// Display: 1st string shown at TOP (standard TAB notation)
+// Progression: Start with the LOWEST string and progress to HIGH strings (see getLevelSteps),
+// then continue past the base ladder into the upper register (see getUpperRegisterSteps)
+// Repetition levels (every 3rd level) re-test the previous two levels
+export function getLevelConstraints(
+  level: number,
+  stringCount: number,
+  fretCount: number,
+): LevelConstraints {
+  // Handle repetition levels - they test the previous 2 levels
+  if (isRepetitionLevel(level)) {
+    const range = getRepetitionLevelRange(level);
+    // Get constraints for all levels in the range and combine them
+    const constraints = [];
+    for (let i = range.start; i <= range.end; i++) {
+      // Skip if somehow a repetition level is in the range (should not happen by design)
+      if (!isRepetitionLevel(i)) {
+        constraints.push(getLevelConstraints(i, stringCount, fretCount));
+      }
+    }
+    // Use the most permissive constraints (lowest minString, widest fret range)
+    const minString = Math.min(...constraints.map(c => c.minString));
+    const minFret = Math.min(...constraints.map(c => c.minFret));
+    const maxFret = Math.max(...constraints.map(c => c.maxFret));
+    return { minString, minFret, maxFret };
+  }
+  
+  // For regular levels, use progression level to determine constraints
+  const progLevel = getProgressionLevel(level);
+  const baseMaxLevel = getBaseMaxLevel(stringCount);
+  const upperSteps = getUpperRegisterSteps(fretCount);
+  if (level > baseMaxLevel && upperSteps.length > 0) {
+    const upperIdx = progLevel - getProgressionLevel(baseMaxLevel + 1);
+    return { minString: 0, ...upperSteps[Math.min(upperIdx, upperSteps.length - 1)] };
+  }
+  const steps = getLevelSteps(stringCount);
+  // Past the last step: all strings and frets
+  const step = steps[Math.min(progLevel, steps.length - 1)];
+  return { minString: stringCount - step.strings, minFret: 0, maxFret: step.maxFret };
+}
+
+// Calculate required score to pass a level (percentage-based on round)
+export function getRequiredScoreForLevel(): number {
+  // Require 80% correct answers in a round to pass
+  return Math.ceil(QUESTIONS_PER_ROUND * 0.8); // 12 out of 15
+}
+
+// Round length and pass score of the built-in ladders
+export const DEFAULT_ROUND_RULES: RoundRules = { questions: QUESTIONS_PER_ROUND, passScore: getRequiredScoreForLevel() };
+
+// The built-in note ladder as level definitions, see curriculum.ts. Map sections group
+// each two regular levels with the repetition level that follows them.
+export function getBuiltInLevels(stringCount: number, fretCount: number): LevelDefinition[] {
+  return Array.from({ length: getMaxLevel(stringCount, fretCount) + 1 }, (_, level) => {
+    const { minString, minFret, maxFret } = getLevelConstraints(level, stringCount, fretCount);
+    return {
+      ...DEFAULT_ROUND_RULES,
+      section: `Section ${Math.floor(level / 3) + 1}`,
+      strings: Array.from({ length: stringCount - minString }, (_, i) => minString + i),
+      minFret,
+      maxFret,
+      notes: 'all',
+      review: isRepetitionLevel(level),
+    };
+  });
+}
+
+// Cells a level asks about: its strings and fret window on this neck, holding notes that pass
+// its filter. A level that leaves nothing on this instrument (strings it doesn't have)
+// falls back to the whole neck.
+export function getLevelCells(definition: LevelDefinition, strings: string[], fretCount: number): FretPosition[] {
+  const cells: FretPosition[] = [];
+  for (const stringIdx of definition.strings) {
+    if (stringIdx >= strings.length) continue;
+    for (let fretIdx = definition.minFret; fretIdx <= Math.min(definition.maxFret, fretCount); fretIdx++) {
+      if (matchesNoteFilter(getNoteName(strings[stringIdx], fretIdx), definition.notes)) {
+        cells.push({ stringIdx, fretIdx });
+      }
+    }
+  }
+  if (cells.length > 0) return cells;
+  return strings.flatMap((_, stringIdx) => Array.from({ length: fretCount + 1 }, (_, fretIdx) => ({ stringIdx, fretIdx })));
+}
+
+export function isSamePosition(a: FretPosition, b: FretPosition): boolean {
+  return a.stringIdx === b.stringIdx && a.fretIdx === b.fretIdx;
+}
+
+// Every cell of the level that plays the given note
+export function findNotePositions(note: string, strings: string[], cells: FretPosition[]): FretPosition[] {
+  return cells.filter(({ stringIdx, fretIdx }) => getNoteName(strings[stringIdx], fretIdx) === note);
+}
+
+// How the answer options of note questions are built
+export interface QuizOptions {
+  // Notes that can be offered a second time under a wrong spelling (an enharmonic trap), see getEnharmonicTrap
+  trapNotes?: string[];
+  distractors?: DistractorStrategy; // How the wrong options are chosen, see distractors.ts
+  optionCount?: number; // Options per question, the correct one included
+  confusions?: ConfusionMap; // The player's past wrong answers, for the 'confused' strategy
+}
+
+export function getRandomQuiz(
+  definition: LevelDefinition,
+  strings: string[],
+  fretCount: number,
+  mastery: MasteryMap = {},
+  random: Random = Math.random,
+  quizOptions: QuizOptions = {},
+): Quiz {
+  // Pick a cell of the level, favouring cells the player is weak or slow on
+  const cells = getLevelCells(definition, strings, fretCount);
+  return getQuizForPosition(pickWeightedPosition(cells, mastery, random), definition, strings, fretCount, random, quizOptions);
+}
+
+// Question for a given cell; locate answers are the note's positions among the level's
+// cells, plus the cell itself when it lies outside them (review questions)
+export function getQuizForPosition(
+  { stringIdx, fretIdx }: FretPosition,
+  definition: LevelDefinition,
+  strings: string[],
+  fretCount: number,
+  random: Random = Math.random,
+  { trapNotes = [], distractors = 'random', optionCount = 3, confusions = {} }: QuizOptions = {},
+): Quiz {
+  const correctNote = getNoteName(strings[stringIdx], fretIdx);
+  // Half of the questions on a trappable note offer it again under a wrong spelling
+  const traps = trapNotes.includes(correctNote) && random() < 0.5 ? [getTrapOption(correctNote)] : [];
+  // Incorrect notes by the distractor strategy, from the notes the level's filter allows
+  const pool = NOTE_NAMES.filter((n) => matchesNoteFilter(n, definition.notes));
+  const candidates = getDistractorCandidates(distractors, { stringIdx, fretIdx }, strings, confusions, random);
+  const options = pickOptions(correctNote, optionCount, candidates, pool, random, traps);
+  // All occurrences of the note at this level, for locate questions
+  const positions = findNotePositions(correctNote, strings, getLevelCells(definition, strings, fretCount));
+  if (!positions.some((p) => p.stringIdx === stringIdx && p.fretIdx === fretIdx)) {
+    positions.push({ stringIdx, fretIdx });
+  }
+  return { stringIdx, fretIdx, correctNote, options, positions };
+}
+
+// A note question: the asked cell, its note and options, and every position of the note in play
+export interface Quiz {
+  stringIdx: number;
+  fretIdx: number;
+  correctNote: string;
+  options: string[]; // Notes, and possibly an enharmonic trap, see getTrapOption
+  positions: FretPosition[];
+}
+
+// A question as it was asked, so a retry round can ask it again
+export type LoggedQuestion =
+  | { track: 'notes' | 'ear'; quiz: Quiz }
+  | { track: 'intervals'; quiz: IntervalQuiz }
+  | { track: 'chords'; quiz: ChordQuiz };
+
+// A fret window practiced outside the level ladder: the given strings, frets minFret..maxFret
+export interface FretWindow {
+  minFret: number;
+  maxFret: number;
+  strings: number[];
+}
+
+// A window round asks every note of the window, with the built-in round length and pass score
+export function getWindowLevel(window: FretWindow): LevelDefinition {
+  return { ...DEFAULT_ROUND_RULES, section: 'Fret window', ...window, notes: 'all', review: false };
+}
+
+// The window of the next round of a moving-window drill: one fret further up the neck,
+// back to the nut once it has passed the last fret
+export function getNextWindow(window: FretWindow, fretCount: number): FretWindow {
+  const width = window.maxFret - window.minFret;
+  const minFret = window.maxFret + 1 > fretCount ? 0 : window.minFret + 1;
+  return { ...window, minFret, maxFret: minFret + width };
+}
+
+// Special rounds: a daily review asks the due cells first, then regular questions;
+// a retry round cycles through the questions missed in the previous round;
+// a window round asks about a fret window of the player's choice
+export type RoundPlan =
+  | { kind: 'review'; positions: FretPosition[] }
+  | { kind: 'retry'; questions: LoggedQuestion[] }
+  | { kind: 'window'; window: FretWindow };
+
+// Round state machine: idle → question → feedback → question ... → summary.
+// 'question' waits for an answer, 'feedback' shows the decided question until the next one,
+// 'summary' shows the finished round; stopping returns to 'idle' from anywhere.
+export type RoundPhase = 'idle' | 'question' | 'feedback' | 'summary';
+
+// Round length and pass score; level definitions carry their own
+export interface RoundRules {
+  questions: number;
+  passScore: number;
+}
+
+export interface RoundState {
+  phase: RoundPhase;
+  level: number; // Level practiced
+  questionCount: number; // Questions in the round
+  passScore: number; // Correct answers needed to pass
+  plan: RoundPlan | null; // Review and retry rounds' prepared questions; null for regular rounds
+  questionNum: number; // Current question, from 0
+  correct: number; // Correct answers, for the pass threshold
+  points: number; // Speed and streak weighted points, added to the score
+  streak: number; // Correct answers in a row
+  times: number[]; // Reaction times (ms) of the decided questions
+  questionStart: number; // Clock time the current question appeared
+  lastAnswer: { correct: boolean; time: number; points: number } | null; // The question just decided
+}
+
+export function createIdleRound(): RoundState {
+  return {
+    phase: 'idle',
+    level: 0,
+    questionCount: DEFAULT_ROUND_RULES.questions,
+    passScore: DEFAULT_ROUND_RULES.passScore,
+    plan: null,
+    questionNum: 0,
+    correct: 0,
+    points: 0,
+    streak: 0,
+    times: [],
+    questionStart: 0,
+    lastAnswer: null,
+  };
+}
+
+// How a finished round ends: review, retry and window rounds drill chosen spots and never
+// count toward levels; a passed round at the player's level levels up unless it is the last one
+export type RoundOutcome = 'review' | 'retry' | 'window' | 'levelUp' | 'maxLevel' | 'practice' | 'failed';
+
+export function getRoundOutcome(round: RoundState, playerLevel: number, maxLevel: number): { passed: boolean; outcome: RoundOutcome } {
+  const passed = round.correct >= round.passScore;
+  if (round.plan) return { passed, outcome: round.plan.kind };
+  if (!passed) return { passed, outcome: 'failed' };
+  if (round.level !== playerLevel) return { passed, outcome: 'practice' };
+  return { passed, outcome: playerLevel < maxLevel ? 'levelUp' : 'maxLevel' };
+}
+
+export interface RoundEngine {
+  // Start a round at a level; the first question is asked right away
+  start(level: number, plan?: RoundPlan | null, rules?: RoundRules): RoundState;
+  // Decide the current question; `timeLimit` (ms) scales the speed bonus of a correct answer
+  answer(round: RoundState, correct: boolean, timeLimit: number): RoundState;
+  // Ask the next question after the feedback, or finish the round after the last one
+  next(round: RoundState): RoundState;
+  stop(round: RoundState): RoundState;
+  // Time (ms) since the current question appeared
+  elapsed(round: RoundState): number;
+  // The current question for a track: the planned one in review and retry rounds, otherwise
+  // a random one of the level, favouring the cells the player is weak on. Note questions
+  // come from `definition`, the round's level of the note ladder, or from a window round's window.
+  getQuestion(
+    round: RoundState,
+    track: ProgressTrack,
+    strings: string[],
+    fretCount: number,
+    definition: LevelDefinition,
+    mastery?: MasteryMap,
+    quizOptions?: QuizOptions,
+  ): LoggedQuestion;
+}
+
+export function createRoundEngine({ random = Math.random, clock = () => performance.now() }: { random?: Random; clock?: Clock } = {}): RoundEngine {
+  return {
+    start: (level, plan = null, rules = DEFAULT_ROUND_RULES) => ({
+      ...createIdleRound(),
+      phase: 'question',
+      level,
+      questionCount: rules.questions,
+      passScore: rules.passScore,
+      plan,
+      questionStart: clock(),
+    }),
+    answer: (round, correct, timeLimit) => {
+      if (round.phase !== 'question') return round;
+      const time = clock() - round.questionStart;
+      const streak = correct ? round.streak + 1 : 0;
+      const points = correct ? getAnswerPoints(time, timeLimit, streak) : 0;
+      return {
+        ...round,
+        phase: 'feedback',
+        correct: round.correct + (correct ? 1 : 0),
+        points: round.points + points,
+        streak,
+        times: [...round.times, time],
+        lastAnswer: { correct, time, points },
+      };
+    },
+    next: (round) => {
+      if (round.phase !== 'feedback') return round;
+      if (round.questionNum + 1 >= round.questionCount) return { ...round, phase: 'summary' };
+      return { ...round, phase: 'question', questionNum: round.questionNum + 1, questionStart: clock(), lastAnswer: null };
+    },
+    stop: (round) => ({ ...round, phase: 'idle' }),
+    elapsed: (round) => clock() - round.questionStart,
+    getQuestion: (round, track, strings, fretCount, definition, mastery = {}, quizOptions = {}) => {
+      const { level, plan, questionNum } = round;
+      const planned = plan?.kind === 'retry' ? plan.questions[questionNum % plan.questions.length] : undefined;
+      if (track === 'intervals') {
+        return planned?.track === 'intervals' ? planned : { track, quiz: getRandomIntervalQuiz(level, strings, fretCount, random) };
+      }
+      if (track === 'chords') {
+        return planned?.track === 'chords' ? planned : { track, quiz: getRandomChordQuiz(level, strings, fretCount, random) };
+      }
+      const position = planned?.track === 'notes' || planned?.track === 'ear'
+        ? planned.quiz
+        : plan?.kind === 'review' ? plan.positions[questionNum] : undefined;
+      const noteLevel = plan?.kind === 'window' ? getWindowLevel(plan.window) : definition;
+      const quiz = position
+        ? getQuizForPosition(position, noteLevel, strings, fretCount, random, quizOptions)
+        : getRandomQuiz(noteLevel, strings, fretCount, mastery, random, quizOptions);
+      return { track, quiz };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { getTuningKey, type TuningPreset } from './tunings';
+
+// An instrument profile defines the string count and the tunings offered for it.
+// tunings[0] is the instrument's standard tuning.
+export interface InstrumentProfile {
+  id: string;
+  name: string;
+  lowestPitch: number; // MIDI note of the lowest open string in standard tuning (40 = E2)
+  tunings: TuningPreset[];
+}
+
+export const INSTRUMENT_PROFILES: InstrumentProfile[] = [
+  {
+    id: 'guitar6',
+    name: 'Guitar (6-string)',
+    lowestPitch: 40,
+    tunings: [
+      { id: 'standard', name: 'Standard (EADGBE)', strings: ['E', 'B', 'G', 'D', 'A', 'E'] },
+      { id: 'dropD', name: 'Drop D (DADGBE)', strings: ['E', 'B', 'G', 'D', 'A', 'D'] },
+      { id: 'dadgad', name: 'DADGAD', strings: ['D', 'A', 'G', 'D', 'A', 'D'] },
+      { id: 'openG', name: 'Open G (DGDGBD)', strings: ['D', 'B', 'G', 'D', 'G', 'D'] },
+      { id: 'openD', name: 'Open D (DADF#AD)', strings: ['D', 'A', 'F#', 'D', 'A', 'D'] },
+      { id: 'halfStepDown', name: 'Half step down (D#G#C#F#A#D#)', strings: ['D#', 'A#', 'F#', 'C#', 'G#', 'D#'] },
+    ],
+  },
+  {
+    id: 'guitar7',
+    name: 'Guitar (7-string)',
+    lowestPitch: 35,
+    tunings: [
+      { id: 'standard', name: 'Standard (BEADGBE)', strings: ['E', 'B', 'G', 'D', 'A', 'E', 'B'] },
+      { id: 'dropA', name: 'Drop A (AEADGBE)', strings: ['E', 'B', 'G', 'D', 'A', 'E', 'A'] },
+    ],
+  },
+  {
+    id: 'guitar8',
+    name: 'Guitar (8-string)',
+    lowestPitch: 30,
+    tunings: [
+      { id: 'standard', name: 'Standard (F#BEADGBE)', strings: ['E', 'B', 'G', 'D', 'A', 'E', 'B', 'F#'] },
+      { id: 'dropE', name: 'Drop E (EBEADGBE)', strings: ['E', 'B', 'G', 'D', 'A', 'E', 'B', 'E'] },
+    ],
+  },
+  {
+    id: 'bass4',
+    name: 'Bass (4-string)',
+    lowestPitch: 28,
+    tunings: [
+      { id: 'standard', name: 'Standard (EADG)', strings: ['G', 'D', 'A', 'E'] },
+      { id: 'dropD', name: 'Drop D (DADG)', strings: ['G', 'D', 'A', 'D'] },
+    ],
+  },
+  {
+    id: 'bass5',
+    name: 'Bass (5-string)',
+    lowestPitch: 23,
+    tunings: [
+      { id: 'standard', name: 'Standard (BEADG)', strings: ['G', 'D', 'A', 'E', 'B'] },
+      { id: 'highC', name: 'High C (EADGC)', strings: ['C', 'G', 'D', 'A', 'E'] },
+    ],
+  },
+  {
+    id: 'bass6',
+    name: 'Bass (6-string)',
+    lowestPitch: 23,
+    tunings: [
+      { id: 'standard', name: 'Standard (BEADGC)', strings: ['C', 'G', 'D', 'A', 'E', 'B'] },
+    ],
+  },
+];
+
+export const DEFAULT_INSTRUMENT = INSTRUMENT_PROFILES[0];
+
+// Standard 6-string guitar: the setup the app started with, so it keeps the original storage keys
+export const DEFAULT_TUNING_KEY = getTuningKey(DEFAULT_INSTRUMENT.id, DEFAULT_INSTRUMENT.tunings[0].strings);
+
+export function getInstrumentProfile(instrumentId: string): InstrumentProfile {
+  return INSTRUMENT_PROFILES.find((profile) => profile.id === instrumentId) ?? DEFAULT_INSTRUMENT;
+}
@@ -0,0 +1,121 @@
+import { NOTE_NAMES, getNoteName } from './notes';
+import { getProgressionLevel, getRepetitionLevelAfterStep, getRepetitionLevelRange, isRepetitionLevel } from './levels';
+import { getStringOffsets } from './tunings';
+import type { FretPosition } from './components/Fretboard';
+
+// Interval names indexed by semitones above the root, modulo 12 (an octave reads as P8)
+export const INTERVAL_NAMES = ['P8', 'm2', 'M2', 'm3', 'M3', 'P4', 'TT', 'P5', 'm6', 'M6', 'm7', 'M7'];
+
+export const INTERVAL_LABELS: Record<string, string> = {
+  m2: 'minor 2nd',
+  M2: 'major 2nd',
+  m3: 'minor 3rd',
+  M3: 'major 3rd',
+  P4: 'perfect 4th',
+  TT: 'tritone',
+  P5: 'perfect 5th',
+  m6: 'minor 6th',
+  M6: 'major 6th',
+  m7: 'minor 7th',
+  M7: 'major 7th',
+  P8: 'octave',
+};
+
+const ALL_INTERVALS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+// Interval ladder steps: which string distances (0 = same string, 1 = next higher string, ...)
+// and which intervals (in semitones) are asked. Same-string intervals come first,
+// then shapes across one, two and more strings.
+const INTERVAL_STEPS: { name: string; spans: number[]; intervals: number[] }[] = [
+  { name: 'Same string', spans: [0], intervals: [2, 4, 5] },
+  { name: 'Same string', spans: [0], intervals: [1, 2, 3, 4, 5, 7] },
+  { name: 'Same string', spans: [0], intervals: ALL_INTERVALS },
+  { name: 'Adjacent strings', spans: [1], intervals: [3, 4, 5, 7] },
+  { name: 'Adjacent strings', spans: [1], intervals: ALL_INTERVALS },
+  { name: 'Two strings apart', spans: [2], intervals: ALL_INTERVALS },
+  { name: 'Cross-string shapes', spans: [1, 2, 3], intervals: ALL_INTERVALS },
+  { name: 'Anywhere', spans: [0, 1, 2, 3], intervals: ALL_INTERVALS },
+];
+
+export const INTERVAL_MAX_LEVEL = getRepetitionLevelAfterStep(INTERVAL_STEPS.length - 1);
+
+// Constraints for an interval level; repetition levels combine the previous two levels
+export function getIntervalLevelConstraints(level: number): { name: string; spans: number[]; intervals: number[] } {
+  if (isRepetitionLevel(level)) {
+    const range = getRepetitionLevelRange(level);
+    const combined = [];
+    for (let i = range.start; i <= range.end; i++) {
+      if (!isRepetitionLevel(i)) {
+        combined.push(getIntervalLevelConstraints(i));
+      }
+    }
+    return {
+      name: [...new Set(combined.map((c) => c.name))].join(' + '),
+      spans: [...new Set(combined.flatMap((c) => c.spans))].sort((a, b) => a - b),
+      intervals: [...new Set(combined.flatMap((c) => c.intervals))].sort((a, b) => a - b),
+    };
+  }
+  return INTERVAL_STEPS[Math.min(getProgressionLevel(level), INTERVAL_STEPS.length - 1)];
+}
+
+// Name of the interval from root up to target, from the two notes' pitch classes
+export function getIntervalName(strings: string[], root: FretPosition, target: FretPosition): string {
+  const from = NOTE_NAMES.indexOf(getNoteName(strings[root.stringIdx], root.fretIdx));
+  const to = NOTE_NAMES.indexOf(getNoteName(strings[target.stringIdx], target.fretIdx));
+  return INTERVAL_NAMES[(to - from + 12) % 12];
+}
+
+function getRandomInt(max: number, random: () => number) {
+  return Math.floor(random() * max);
+}
+
+export interface IntervalQuiz {
+  root: FretPosition;
+  target: FretPosition;
+  correctInterval: string;
+  options: string[];
+}
+
+// Pick an interval allowed at this level, then a root/target pair that spells it
+// ascending within the level's string distances
+export function getRandomIntervalQuiz(level: number, strings: string[], fretCount: number, random: () => number = Math.random): IntervalQuiz {
+  const { spans, intervals } = getIntervalLevelConstraints(level);
+  const offsets = getStringOffsets(strings);
+  const shuffled = [...intervals].sort(() => random() - 0.5);
+  let root: FretPosition = { stringIdx: strings.length - 1, fretIdx: 0 };
+  let target: FretPosition = { stringIdx: strings.length - 1, fretIdx: 2 };
+  for (const semitones of shuffled) {
+    const candidates: { root: FretPosition; target: FretPosition }[] = [];
+    for (let rootString = 0; rootString < strings.length; rootString++) {
+      for (const span of spans) {
+        const targetString = rootString - span;
+        if (targetString < 0) continue;
+        const stringGap = offsets[targetString] - offsets[rootString];
+        for (let rootFret = 0; rootFret <= fretCount; rootFret++) {
+          const targetFret = rootFret + semitones - stringGap;
+          if (targetFret >= 0 && targetFret <= fretCount) {
+            candidates.push({
+              root: { stringIdx: rootString, fretIdx: rootFret },
+              target: { stringIdx: targetString, fretIdx: targetFret },
+            });
+          }
+        }
+      }
+    }
+    if (candidates.length > 0) {
+      ({ root, target } = candidates[getRandomInt(candidates.length, random)]);
+      break;
+    }
+  }
+  const correctInterval = getIntervalName(strings, root, target);
+  // Distractors come from the level's own intervals when there are enough of them
+  const levelNames = [...new Set(intervals.map((i) => INTERVAL_NAMES[i % 12]))];
+  const pool = levelNames.length >= 3 ? levelNames : INTERVAL_NAMES;
+  let options = [correctInterval];
+  while (options.length < 3) {
+    const n = pool[getRandomInt(pool.length, random)];
+    if (!options.includes(n)) options.push(n);
+  }
+  options = options.sort(() => random() - 0.5);
+  return { root, target, correctInterval, options };
+}
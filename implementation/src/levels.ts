@@ -0,0 +1,42 @@
+// Level numbering shared by every level ladder (notes, intervals, ...):
+// regular levels walk through the ladder's steps, and every 3rd level is a
+// repetition level that re-tests the previous two.
+
+// Helper function to check if a level is a repetition level
+// Repetition levels occur every 3rd level: levels 2, 5, 8, 11, 14, 17, 20, 23, 26...
+export function isRepetitionLevel(level: number): boolean {
+  return level > 0 && (level + 1) % 3 === 0;
+}
+
+// Helper function to get the range of levels that a repetition level covers
+// For example, level 2 covers levels 0-1, level 5 covers levels 3-4
+export function getRepetitionLevelRange(level: number): { start: number; end: number } {
+  if (!isRepetitionLevel(level)) {
+    return { start: level, end: level };
+  }
+  const end = level - 1;
+  const start = Math.max(0, end - 1);
+  return { start, end };
+}
+
+// Map effective level (accounting for repetition levels) to actual progression level
+// This ensures that repetition levels don't affect the actual progression
+export function getProgressionLevel(level: number): number {
+  // Count how many repetition levels exist before this level
+  const repetitionLevelsBefore = Math.floor(level / 3);
+  return level - repetitionLevelsBefore;
+}
+
+// The repetition level that closes the section in which progression step `step`
+// (counted from the first regular level at or after `fromLevel`) is played
+export function getRepetitionLevelAfterStep(step: number, fromLevel: number = 0): number {
+  const firstProg = getProgressionLevel(fromLevel);
+  let level = fromLevel;
+  while (isRepetitionLevel(level) || getProgressionLevel(level) - firstProg < step) {
+    level++;
+  }
+  while (!isRepetitionLevel(level)) {
+    level++;
+  }
+  return level;
+}
@@ -4,11 +4,18 @@ import './index.css'
 
 import App from './App.tsx'
 import { ColorModeProvider } from './components/ColorModeContext';
+import StorageVersionNotice from './components/StorageVersionNotice';
+import { createLocalStorageBackend } from './storage';
+import { migrateProfiles } from './profiles';
+
+// Upgrade saved data from earlier app versions before anything reads it. Data from a newer
+// version can't be read, so the app doesn't start rather than overwrite it.
+const newerProfiles = migrateProfiles(createLocalStorageBackend())
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ColorModeProvider>
-      <App />
+      {newerProfiles.length > 0 ? <StorageVersionNotice profiles={newerProfiles} /> : <App />}
     </ColorModeProvider>
   </StrictMode>,
 )
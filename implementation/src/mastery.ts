@@ -0,0 +1,78 @@
+import { getMedian } from './scoring';
+import type { FretPosition } from './components/Fretboard';
+
+// Answer statistics for one fretboard cell
+export interface CellStats {
+  attempts: number;
+  correct: number;
+  totalTime: number; // ms spent on all attempts, for the average response time
+  times?: number[]; // ms of the most recent attempts, for the median response time
+}
+
+// Response times kept per cell for the median
+const MAX_RECENT_TIMES = 25;
+
+// Cell statistics keyed by 'stringIdx:fretIdx'
+export type MasteryMap = { [cell: string]: CellStats };
+
+export function getCellKey(position: FretPosition): string {
+  return `${position.stringIdx}:${position.fretIdx}`;
+}
+
+export function recordAnswer(mastery: MasteryMap, position: FretPosition, correct: boolean, time: number): MasteryMap {
+  const key = getCellKey(position);
+  const stats = mastery[key] ?? { attempts: 0, correct: 0, totalTime: 0 };
+  return {
+    ...mastery,
+    [key]: {
+      attempts: stats.attempts + 1,
+      correct: stats.correct + (correct ? 1 : 0),
+      totalTime: stats.totalTime + time,
+      times: [...(stats.times ?? []), time].slice(-MAX_RECENT_TIMES),
+    },
+  };
+}
+
+// Accuracy with one imagined right and one imagined wrong answer added, so a single
+// answer doesn't swing a cell to 0% or 100% and unseen cells sit at 50%
+export function getCellAccuracy(stats: CellStats | undefined): number {
+  return ((stats?.correct ?? 0) + 1) / ((stats?.attempts ?? 0) + 2);
+}
+
+export function getAverageTime(stats: CellStats | undefined): number | null {
+  return stats && stats.attempts > 0 ? stats.totalTime / stats.attempts : null;
+}
+
+// Median of the recent response times; statistics recorded before times were kept have none
+export function getMedianTime(stats: CellStats | undefined): number | null {
+  return getMedian(stats?.times ?? []);
+}
+
+// Selection weight of a cell: weak cells up to 4x, and slow cells up to 2x more likely than
+// cells answered quickly, relative to the player's own average response time
+function getCellWeight(stats: CellStats | undefined, overallAverageTime: number | null): number {
+  const weakness = 1 + 3 * (1 - getCellAccuracy(stats));
+  const averageTime = getAverageTime(stats);
+  const slowness = averageTime !== null && overallAverageTime
+    ? Math.min(2, Math.max(0.5, averageTime / overallAverageTime))
+    : 1;
+  return weakness * slowness;
+}
+
+// Pick one of the candidate cells, favouring weak and slow ones
+export function pickWeightedPosition<T extends FretPosition>(candidates: T[], mastery: MasteryMap, random: () => number = Math.random): T {
+  let attempts = 0;
+  let totalTime = 0;
+  for (const stats of Object.values(mastery)) {
+    attempts += stats.attempts;
+    totalTime += stats.totalTime;
+  }
+  const overallAverageTime = attempts > 0 ? totalTime / attempts : null;
+  const weights = candidates.map((c) => getCellWeight(mastery[getCellKey(c)], overallAverageTime));
+  let r = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    r -= weights[i];
+    if (r < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+}
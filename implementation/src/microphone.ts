@@ -0,0 +1,48 @@
+import { detectPitch } from './pitchDetection';
+import { getMidiFromFrequency } from './pitch';
+
+const BUFFER_SIZE = 4096; // Samples analysed per detection; two periods of the lowest bass note
+const DETECT_INTERVAL = 80; // ms between detections
+const STABLE_DETECTIONS = 3; // Consecutive detections of the same note before it counts
+
+// Listen to the microphone and report the MIDI note being played once it is stable,
+// and null once the input falls silent. Resolves to a function that stops listening;
+// rejects if the microphone is unavailable or access is denied.
+export async function startPitchListener(onNote: (midi: number | null) => void): Promise<() => void> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  const ctx = new AudioContext();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = BUFFER_SIZE;
+  source.connect(analyser);
+  const buffer = new Float32Array(BUFFER_SIZE);
+
+  let candidate: number | null = null;
+  let candidateCount = 0;
+  let reported: number | null = null;
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    const frequency = detectPitch(buffer, ctx.sampleRate);
+    const midi = frequency === null ? null : getMidiFromFrequency(frequency);
+    if (midi === candidate) {
+      candidateCount++;
+    } else {
+      candidate = midi;
+      candidateCount = 1;
+    }
+    // Report changes only, so a ringing note is not counted again and again
+    if (candidateCount === STABLE_DETECTIONS && candidate !== reported) {
+      reported = candidate;
+      onNote(candidate);
+    }
+  }, DETECT_INTERVAL);
+
+  return () => {
+    clearInterval(interval);
+    source.disconnect();
+    stream.getTracks().forEach((track) => track.stop());
+    void ctx.close();
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SPELLING,
+  convertNoteToDisplay,
+  convertOptionToDisplay,
+  getEnharmonicSpellings,
+  getEnharmonicTrap,
+  getKeyName,
+  getNoteName,
+  getTrapOption,
+  spellNote,
+  type NoteSpelling,
+} from './notes';
+
+const inKey = (key: string, solfege: NoteSpelling['solfege'] = 'fixed'): NoteSpelling => ({ accidentals: 'key', key, solfege });
+
+describe('getNoteName', () => {
+  it('counts frets up from the open string, wrapping at the octave', () => {
+    expect(getNoteName('E', 0)).toBe('E');
+    expect(getNoteName('A', 3)).toBe('C');
+    expect(getNoteName('E', 13)).toBe('F');
+  });
+});
+
+describe('getEnharmonicSpellings', () => {
+  it('lists every spelling with at most one accidental', () => {
+    expect(getEnharmonicSpellings('A#')).toEqual(['A#', 'Bb']);
+    expect(getEnharmonicSpellings('F')).toEqual(['E#', 'F']);
+    expect(getEnharmonicSpellings('C')).toEqual(['C', 'B#']);
+    expect(getEnharmonicSpellings('D')).toEqual(['D']);
+  });
+});
+
+describe('spellNote', () => {
+  it('writes accidentals as sharps, flats or both', () => {
+    expect(spellNote('A#', DEFAULT_SPELLING)).toBe('A#');
+    expect(spellNote('A#', { ...DEFAULT_SPELLING, accidentals: 'flat' })).toBe('Bb');
+    expect(spellNote('A#', { ...DEFAULT_SPELLING, accidentals: 'both' })).toBe('A#/Bb');
+    expect(spellNote('C', { ...DEFAULT_SPELLING, accidentals: 'both' })).toBe('C');
+  });
+
+  it('spells scale notes by their degree in the key', () => {
+    expect(spellNote('A#', inKey('F'))).toBe('Bb');
+    expect(spellNote('A#', inKey('B'))).toBe('A#');
+    expect(spellNote('F', inKey('F#'))).toBe('E#');
+  });
+
+  it("writes notes outside the key with the key's accidental", () => {
+    expect(spellNote('C#', inKey('F'))).toBe('Db');
+    expect(spellNote('D#', inKey('G'))).toBe('D#');
+  });
+});
+
+describe('convertNoteToDisplay', () => {
+  it('shows German and mixed names', () => {
+    expect(convertNoteToDisplay('B', 'German')).toBe('H');
+    expect(convertNoteToDisplay('A#', 'German')).toBe('B');
+    expect(convertNoteToDisplay('A#', 'Mixed')).toBe('B/A#');
+    expect(convertNoteToDisplay('C', 'Mixed')).toBe('C');
+  });
+
+  it('shows fixed Do syllables with the spelled accidental', () => {
+    expect(convertNoteToDisplay('C#', 'Solfege')).toBe('Do#');
+    expect(convertNoteToDisplay('C#', 'Solfege', { ...DEFAULT_SPELLING, accidentals: 'flat' })).toBe('Reb');
+  });
+
+  it('shows movable Do syllables relative to the key', () => {
+    expect(convertNoteToDisplay('D', 'Solfege', inKey('D', 'movable'))).toBe('Do');
+    expect(convertNoteToDisplay('F#', 'Solfege', inKey('D', 'movable'))).toBe('Mi');
+    expect(convertNoteToDisplay('F', 'Solfege', inKey('D', 'movable'))).toBe('Ri');
+    expect(convertNoteToDisplay('G#', 'Solfege', inKey('F', 'movable'))).toBe('Me');
+    expect(convertNoteToDisplay('F', 'Solfege', { accidentals: 'both', key: 'D', solfege: 'movable' })).toBe('Ri/Me');
+  });
+});
+
+describe('getEnharmonicTrap', () => {
+  it('offers the spelling the key does not call for', () => {
+    expect(getEnharmonicTrap('A#', 'US', inKey('F'))).toBe('A#');
+    expect(getEnharmonicTrap('A#', 'US', inKey('B'))).toBe('Bb');
+    expect(getEnharmonicTrap('F', 'US', DEFAULT_SPELLING)).toBe('E#');
+  });
+
+  it('uses the other chromatic syllable in movable Do', () => {
+    expect(getEnharmonicTrap('F', 'Solfege', inKey('D', 'movable'))).toBe('Me');
+    expect(getEnharmonicTrap('D', 'Solfege', inKey('D', 'movable'))).toBeNull();
+  });
+
+  it('has no trap for notes with one spelling, or when both spellings are shown', () => {
+    expect(getEnharmonicTrap('D', 'US', DEFAULT_SPELLING)).toBeNull();
+    expect(getEnharmonicTrap('A#', 'US', { ...DEFAULT_SPELLING, accidentals: 'both' })).toBeNull();
+  });
+});
+
+describe('convertOptionToDisplay', () => {
+  it('shows trap options under the wrong spelling', () => {
+    expect(convertOptionToDisplay('A#', 'US', inKey('F'))).toBe('Bb');
+    expect(convertOptionToDisplay(getTrapOption('A#'), 'US', inKey('F'))).toBe('A#');
+    expect(convertOptionToDisplay(getTrapOption('D'), 'US', inKey('F'))).toBe('D');
+  });
+});
+
+describe('getKeyName', () => {
+  it('names flat keys with flats', () => {
+    expect(getKeyName('A#')).toBe('Bb');
+    expect(getKeyName('B')).toBe('B');
+  });
+});
@@ -0,0 +1,154 @@
+// Note names and naming conventions shared by the quiz, the fretboard and the settings
+
+export type NoteNaming = 'US' | 'German' | 'Mixed' | 'Solfege';
+
+// How accidentals are written: always sharps, always flats, both (C#/Db), or as in a major key
+export type AccidentalSpelling = 'sharp' | 'flat' | 'both' | 'key';
+
+// Solfège: fixed Do is always C, movable Do is the tonic of the key
+export type SolfegeSystem = 'fixed' | 'movable';
+
+export interface NoteSpelling {
+  accidentals: AccidentalSpelling;
+  key: string; // Tonic of the major key (as in NOTE_NAMES), for key-aware spelling and movable Do
+  solfege: SolfegeSystem;
+}
+
+export const DEFAULT_SPELLING: NoteSpelling = { accidentals: 'sharp', key: 'C', solfege: 'fixed' };
+
+// Notes are identified by their sharp names everywhere; spelling only changes how they are shown
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+export const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Major keys written with flats (F, Bb, Eb, Ab, Db); the others are written with sharps
+const FLAT_KEYS = ['F', 'A#', 'D#', 'G#', 'C#'];
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+const FIXED_SYLLABLES: Record<string, string> = { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' };
+// Movable syllables by semitones above the tonic, with raised or lowered chromatic syllables
+const RAISED_SYLLABLES = ['Do', 'Di', 'Re', 'Ri', 'Mi', 'Fa', 'Fi', 'Sol', 'Si', 'La', 'Li', 'Ti'];
+const LOWERED_SYLLABLES = ['Do', 'Ra', 'Re', 'Me', 'Mi', 'Fa', 'Se', 'Sol', 'Le', 'La', 'Te', 'Ti'];
+
+function isFlatKey(key: string): boolean {
+  return FLAT_KEYS.includes(key);
+}
+
+// A pitch written with the given letter and at most one accidental, or null if it needs more
+function spellWithLetter(pitch: number, letterIdx: number): string | null {
+  const diff = (pitch - LETTER_PITCHES[letterIdx] + 12) % 12;
+  if (diff === 0) return LETTERS[letterIdx];
+  if (diff === 1) return `${LETTERS[letterIdx]}#`;
+  if (diff === 11) return `${LETTERS[letterIdx]}b`;
+  return null;
+}
+
+// Every way to write a note with at most one accidental: A# → A#, Bb; F → E#, F; D → D
+export function getEnharmonicSpellings(note: string): string[] {
+  const pitch = NOTE_NAMES.indexOf(note);
+  return LETTERS.map((_, i) => spellWithLetter(pitch, i)).filter((s): s is string => s !== null);
+}
+
+// Names of the 12 notes in a major key: scale notes by their scale degree's letter
+// (Bb in F major, A# in B major, E# in F# major), the others with the key's accidental
+function getKeyNames(key: string): string[] {
+  const tonic = NOTE_NAMES.indexOf(key);
+  const names = [...(isFlatKey(key) ? FLAT_NAMES : NOTE_NAMES)];
+  const tonicLetter = LETTERS.indexOf(names[tonic][0]);
+  MAJOR_SCALE.forEach((interval, degree) => {
+    const pitch = (tonic + interval) % 12;
+    names[pitch] = spellWithLetter(pitch, (tonicLetter + degree) % 7) ?? names[pitch];
+  });
+  return names;
+}
+
+// The written note for a spelling mode; 'both' gives the two names of an accidental, e.g. C#/Db
+export function spellNote(note: string, spelling: NoteSpelling): string {
+  const pitch = NOTE_NAMES.indexOf(note);
+  if (spelling.accidentals === 'flat') return FLAT_NAMES[pitch];
+  if (spelling.accidentals === 'both') return note === FLAT_NAMES[pitch] ? note : `${note}/${FLAT_NAMES[pitch]}`;
+  if (spelling.accidentals === 'key') return getKeyNames(spelling.key)[pitch];
+  return note;
+}
+
+// Movable-Do syllables of a note; 'both' gives the raised and the lowered syllable (Di/Ra)
+function getMovableSyllables(note: string, spelling: NoteSpelling): string[] {
+  const degree = (NOTE_NAMES.indexOf(note) - NOTE_NAMES.indexOf(spelling.key) + 12) % 12;
+  const raised = RAISED_SYLLABLES[degree];
+  const lowered = LOWERED_SYLLABLES[degree];
+  if (spelling.accidentals === 'both') return raised === lowered ? [raised] : [raised, lowered];
+  const flat = spelling.accidentals === 'flat' || (spelling.accidentals === 'key' && isFlatKey(spelling.key));
+  return [flat ? lowered : raised];
+}
+
+// In German notation: B → H, A# (B-flat) → B
+function toGermanName(name: string): string {
+  if (name === 'B') return 'H';
+  if (name === 'A#' || name === 'Bb') return 'B';
+  if (name === 'B#') return 'H#';
+  return name;
+}
+
+// Show written names (one, or two alternatives) in a naming convention
+function formatNames(names: string[], naming: NoteNaming): string {
+  if (naming === 'Solfege') return names.map((n) => `${FIXED_SYLLABLES[n[0]]}${n.slice(1)}`).join('/');
+  if (naming === 'US') return names.join('/');
+  const german = names.map(toGermanName);
+  // Mixed mode: show both, the German name first
+  const shown = naming === 'German' ? german : [...german, ...names];
+  return shown.filter((n, i) => shown.indexOf(n) === i).join('/');
+}
+
+// Note name conversion: `usNote` as in NOTE_NAMES, spelled and shown in the naming convention
+export function convertNoteToDisplay(usNote: string, naming: NoteNaming, spelling: NoteSpelling = DEFAULT_SPELLING): string {
+  if (naming === 'Solfege' && spelling.solfege === 'movable') {
+    return getMovableSyllables(usNote, spelling).join('/');
+  }
+  return formatNames(spellNote(usNote, spelling).split('/'), naming);
+}
+
+// A wrong way to write a note in the current spelling, e.g. A# where the key calls for Bb,
+// or E# for F; null if the note has no other spelling that looks different
+export function getEnharmonicTrap(note: string, naming: NoteNaming, spelling: NoteSpelling): string | null {
+  if (spelling.accidentals === 'both') return null;
+  const display = convertNoteToDisplay(note, naming, spelling);
+  const candidates = naming === 'Solfege' && spelling.solfege === 'movable'
+    ? getMovableSyllables(note, { ...spelling, accidentals: 'both' })
+    : getEnharmonicSpellings(note).map((s) => formatNames([s], naming));
+  return candidates.find((c) => c !== display) ?? null;
+}
+
+// Quiz options are notes, or a note marked as an enharmonic trap: the note offered again under
+// a wrong spelling, so it never equals the correct answer
+const TRAP_MARK = '~';
+
+export function getTrapOption(note: string): string {
+  return `${TRAP_MARK}${note}`;
+}
+
+export function isTrapOption(option: string): boolean {
+  return option.startsWith(TRAP_MARK);
+}
+
+// The note an option stands for, trap or not
+export function getOptionNote(option: string): string {
+  return isTrapOption(option) ? option.slice(TRAP_MARK.length) : option;
+}
+
+export function convertOptionToDisplay(option: string, naming: NoteNaming, spelling: NoteSpelling = DEFAULT_SPELLING): string {
+  const note = getOptionNote(option);
+  if (!isTrapOption(option)) return convertNoteToDisplay(note, naming, spelling);
+  return getEnharmonicTrap(note, naming, spelling) ?? convertNoteToDisplay(note, naming, spelling);
+}
+
+// Major key name for the key selector: the tonic in its usual spelling (Bb, not A#)
+export function getKeyName(key: string): string {
+  return isFlatKey(key) ? FLAT_NAMES[NOTE_NAMES.indexOf(key)] : key;
+}
+
+export function getNoteName(openNote: string, fret: number) {
+  const openIdx = NOTE_NAMES.indexOf(openNote);
+  return NOTE_NAMES[(openIdx + fret) % 12];
+}
@@ -0,0 +1,48 @@
+import { NOTE_NAMES, getNoteName } from './notes';
+import { getStringOffsets } from './tunings';
+import type { FretPosition } from './components/Fretboard';
+
+// Note names carry no octave, so sounding pitches are tracked as MIDI note numbers
+// (60 = C4, 69 = A4 = 440 Hz)
+
+export interface Pitch {
+  note: string; // Note name without octave, as in NOTE_NAMES
+  octave: number; // Scientific pitch octave (E2 = low E string of a guitar)
+  midi: number;
+  frequency: number; // Hz, equal temperament with A4 = 440 Hz
+}
+
+export function getFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+// Nearest MIDI note for a frequency
+export function getMidiFromFrequency(frequency: number): number {
+  return Math.round(69 + 12 * Math.log2(frequency / 440));
+}
+
+// MIDI note of the lowest open string: the pitch of its note closest to the instrument's
+// standard lowest string, so a drop tuning goes down and a raised tuning goes up
+export function getLowestOpenPitch(strings: string[], standardLowestPitch: number): number {
+  const lowest = NOTE_NAMES.indexOf(strings[strings.length - 1]);
+  const diff = (lowest - (standardLowestPitch % 12) + 12) % 12;
+  return standardLowestPitch + (diff > 6 ? diff - 12 : diff);
+}
+
+// Sounding pitch of a fretboard position; the note name comes from getNoteName and the
+// octave from the string's height above the lowest open string
+export function getPitch(strings: string[], standardLowestPitch: number, position: FretPosition): Pitch {
+  const offsets = getStringOffsets(strings);
+  const midi = getLowestOpenPitch(strings, standardLowestPitch) + offsets[position.stringIdx] + position.fretIdx;
+  return {
+    note: getNoteName(strings[position.stringIdx], position.fretIdx),
+    octave: Math.floor(midi / 12) - 1,
+    midi,
+    frequency: getFrequency(midi),
+  };
+}
+
+// Scientific pitch name, e.g. 'E2'
+export function getPitchName(pitch: Pitch): string {
+  return `${pitch.note}${pitch.octave}`;
+}
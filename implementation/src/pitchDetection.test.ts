@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { detectPitch } from './pitchDetection';
+import { getFrequency, getMidiFromFrequency } from './pitch';
+
+// Samples per detection, as the microphone reads them (see microphone.ts)
+const BUFFER_SIZE = 4096;
+const SAMPLE_RATES = [44100, 48000];
+const LOWEST_MIDI = 23; // B0, ~31 Hz: the low string of a 5-string bass
+const HIGHEST_MIDI = 83; // B5, ~988 Hz
+
+// A note with the given harmonic amplitudes (1st = fundamental), at a random-looking phase
+function synthesize(frequency: number, sampleRate: number, harmonics: number[]): Float32Array {
+  const buffer = new Float32Array(BUFFER_SIZE);
+  const phase = frequency % 1;
+  for (let i = 0; i < buffer.length; i++) {
+    const t = i / sampleRate;
+    buffer[i] = harmonics.reduce((sum, amp, h) => sum + amp * Math.sin(2 * Math.PI * frequency * (h + 1) * t + phase * (h + 1)), 0) * 0.5;
+  }
+  return buffer;
+}
+
+// Seeded white noise in [-amplitude, amplitude]
+function noise(amplitude: number, seed: number): Float32Array {
+  const buffer = new Float32Array(BUFFER_SIZE);
+  for (let i = 0; i < buffer.length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    buffer[i] = (seed / 4294967296 * 2 - 1) * amplitude;
+  }
+  return buffer;
+}
+
+describe('detectPitch', () => {
+  for (const sampleRate of SAMPLE_RATES) {
+    it(`finds every note of sine waves from B0 to B5 at ${sampleRate} Hz`, () => {
+      for (let midi = LOWEST_MIDI; midi <= HIGHEST_MIDI; midi++) {
+        const frequency = detectPitch(synthesize(getFrequency(midi), sampleRate, [1]), sampleRate);
+        expect(frequency, `MIDI ${midi}`).not.toBeNull();
+        expect(getMidiFromFrequency(frequency!), `MIDI ${midi}`).toBe(midi);
+      }
+    });
+
+    it(`finds the fundamental of string-like tones with strong harmonics at ${sampleRate} Hz`, () => {
+      for (let midi = LOWEST_MIDI; midi <= HIGHEST_MIDI; midi++) {
+        const frequency = detectPitch(synthesize(getFrequency(midi), sampleRate, [1, 0.8, 0.6, 0.4, 0.2]), sampleRate);
+        expect(frequency, `MIDI ${midi}`).not.toBeNull();
+        expect(getMidiFromFrequency(frequency!), `MIDI ${midi}`).toBe(midi);
+      }
+    });
+
+    it(`is accurate to a few cents at ${sampleRate} Hz`, () => {
+      const frequency = getFrequency(45); // A2, the open A string
+      const detected = detectPitch(synthesize(frequency, sampleRate, [1, 0.5]), sampleRate)!;
+      expect(Math.abs(1200 * Math.log2(detected / frequency))).toBeLessThan(5);
+    });
+
+    it(`returns null for silence and noise at ${sampleRate} Hz`, () => {
+      expect(detectPitch(new Float32Array(BUFFER_SIZE), sampleRate)).toBeNull();
+      expect(detectPitch(noise(0.001, 1), sampleRate)).toBeNull();
+      for (const seed of [1, 2, 3]) {
+        expect(detectPitch(noise(0.5, seed), sampleRate)).toBeNull();
+      }
+    });
+  }
+});
@@ -0,0 +1,78 @@
+// Fundamental frequency detection with the YIN algorithm (de Cheveigné & Kawahara, 2002).
+// Pure functions over sample buffers, so the detector runs the same on microphone input
+// and on synthesized test signals.
+
+export interface PitchDetectionOptions {
+  minFrequency?: number; // Hz; lowest pitch searched for (B0 on a 5-string bass is ~31 Hz)
+  maxFrequency?: number; // Hz; highest pitch searched for
+  threshold?: number; // YIN aperiodicity threshold: lower is stricter
+  minRms?: number; // Buffers quieter than this are treated as silence
+}
+
+const DEFAULT_OPTIONS: Required<PitchDetectionOptions> = {
+  minFrequency: 27,
+  maxFrequency: 1400,
+  threshold: 0.15,
+  minRms: 0.01,
+};
+
+function getRms(buffer: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  return Math.sqrt(sum / buffer.length);
+}
+
+// Detected fundamental frequency in Hz, or null for silence or an unpitched buffer.
+// The buffer must hold at least two periods of the lowest frequency searched for.
+export function detectPitch(
+  buffer: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {},
+): number | null {
+  const { minFrequency, maxFrequency, threshold, minRms } = { ...DEFAULT_OPTIONS, ...options };
+  if (getRms(buffer) < minRms) return null;
+
+  const maxTau = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(buffer.length / 2));
+  const minTau = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  if (maxTau <= minTau) return null;
+  const windowSize = buffer.length - maxTau;
+
+  // Difference function, normalized by its running mean (cumulative mean normalized difference)
+  const cmnd = new Float32Array(maxTau + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let diff = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = buffer[i] - buffer[i + tau];
+      diff += delta * delta;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum === 0 ? 1 : (diff * tau) / runningSum;
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let tau = minTau;
+  while (tau <= maxTau && cmnd[tau] >= threshold) {
+    tau++;
+  }
+  if (tau > maxTau) return null;
+  while (tau + 1 <= maxTau && cmnd[tau + 1] < cmnd[tau]) {
+    tau++;
+  }
+
+  // Parabolic interpolation around the minimum for sub-sample precision
+  let period = tau;
+  if (tau > 1 && tau < maxTau) {
+    const a = cmnd[tau - 1];
+    const b = cmnd[tau];
+    const c = cmnd[tau + 1];
+    const denominator = a + c - 2 * b;
+    if (denominator !== 0) {
+      period = tau + (a - c) / (2 * denominator);
+    }
+  }
+  return sampleRate / period;
+}
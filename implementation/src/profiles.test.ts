@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_PROFILE_ID,
+  createProfile,
+  deleteProfile,
+  getProfileBackend,
+  loadProfiles,
+  renameProfile,
+  saveProfiles,
+  type ProfileList,
+} from './profiles';
+import { SCHEMA_VERSION, SCHEMA_VERSION_KEY, createMemoryBackend, type StorageBackend } from './storage';
+
+function dump(backend: StorageBackend): { [key: string]: string } {
+  return Object.fromEntries(backend.keys().map((key) => [key, backend.getItem(key)!]));
+}
+
+const TWO_PLAYERS: ProfileList = {
+  activeId: 'p1',
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Player 1' }, { id: 'p1', name: 'Sam' }],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('loadProfiles', () => {
+  it('moves the data saved before profiles into the default profile', () => {
+    const backend = createMemoryBackend({ fbk_player_level: '4', 'fbk_score:bass': '120', 'color-mode': 'light' });
+    expect(loadProfiles(backend)).toEqual({ activeId: DEFAULT_PROFILE_ID, profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Player 1' }] });
+    expect(dump(getProfileBackend(backend, DEFAULT_PROFILE_ID))).toEqual({ fbk_player_level: '4', 'fbk_score:bass': '120' });
+    // The color mode stays with the device
+    expect(backend.getItem('color-mode')).toBe('light');
+    expect(backend.getItem('fbk_player_level')).toBeNull();
+  });
+
+  it('starts with the default profile on a new device', () => {
+    const backend = createMemoryBackend();
+    expect(loadProfiles(backend).profiles.map((p) => p.id)).toEqual([DEFAULT_PROFILE_ID]);
+    expect(loadProfiles(backend)).toEqual(loadProfiles(backend));
+  });
+
+  it('returns the saved profiles, leaving their data alone', () => {
+    const backend = createMemoryBackend({ 'fbk_profile_p1/fbk_score': '80' });
+    saveProfiles(backend, TWO_PLAYERS);
+    expect(loadProfiles(backend)).toEqual(TWO_PLAYERS);
+    expect(dump(getProfileBackend(backend, 'p1'))).toEqual({ fbk_score: '80' });
+  });
+
+  it('rebuilds an unreadable list from the profiles with data', () => {
+    const backend = createMemoryBackend({
+      fbk_profiles: '{"activeId":"p2","profiles":[{"id":"p2","name":"Alex"},{"id":"p1"}]}',
+      'fbk_profile_default/fbk_score': '30',
+      'fbk_profile_p2/fbk_score': '50',
+      'fbk_profile_p1/fbk_score': '80',
+    });
+    const list = {
+      activeId: 'p2',
+      profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Player 1' }, { id: 'p1', name: 'Player 2' }, { id: 'p2', name: 'Alex' }],
+    };
+    expect(loadProfiles(backend)).toEqual(list);
+    expect(loadProfiles(backend)).toEqual(list);
+    expect(dump(getProfileBackend(backend, 'p1'))).toEqual({ fbk_score: '80' });
+  });
+
+  it('falls back to the default profile when the active one is lost', () => {
+    const backend = createMemoryBackend({ fbk_profiles: 'not json', 'fbk_profile_p1/fbk_score': '80' });
+    expect(loadProfiles(backend).activeId).toBe(DEFAULT_PROFILE_ID);
+  });
+});
+
+describe('createProfile', () => {
+  it('adds a profile with migrated, empty data and makes it active', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const backend = createMemoryBackend();
+    const list = createProfile(backend, TWO_PLAYERS, 'Alex');
+    const id = `p${Date.now().toString(36)}`;
+    expect(list).toEqual({ activeId: id, profiles: [...TWO_PLAYERS.profiles, { id, name: 'Alex' }] });
+    expect(dump(getProfileBackend(backend, id))).toEqual({ [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION) });
+  });
+});
+
+describe('renameProfile', () => {
+  it('renames one profile', () => {
+    expect(renameProfile(TWO_PLAYERS, 'p1', 'Sam B.').profiles.map((p) => p.name)).toEqual(['Player 1', 'Sam B.']);
+  });
+});
+
+describe('deleteProfile', () => {
+  it("removes the profile's data only", () => {
+    const backend = createMemoryBackend({ 'fbk_profile_p1/fbk_score': '80', 'fbk_profile_default/fbk_score': '30' });
+    const list = deleteProfile(backend, { ...TWO_PLAYERS, activeId: DEFAULT_PROFILE_ID }, 'p1');
+    expect(list).toEqual({ activeId: DEFAULT_PROFILE_ID, profiles: [TWO_PLAYERS.profiles[0]] });
+    expect(dump(backend)).toEqual({ 'fbk_profile_default/fbk_score': '30' });
+  });
+
+  it('switches to another profile when the active one is deleted', () => {
+    expect(deleteProfile(createMemoryBackend(), TWO_PLAYERS, 'p1').activeId).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it('keeps the last profile', () => {
+    const backend = createMemoryBackend({ 'fbk_profile_default/fbk_score': '30' });
+    const list = { activeId: DEFAULT_PROFILE_ID, profiles: [TWO_PLAYERS.profiles[0]] };
+    expect(deleteProfile(backend, list, DEFAULT_PROFILE_ID)).toBe(list);
+    expect(backend.getItem('fbk_profile_default/fbk_score')).toBe('30');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  StorageVersionError,
+  createPrefixedBackend,
+  isPlainObject,
+  migrateStorage,
+  readObject,
+  writeValue,
+  type StorageBackend,
+} from './storage';
+
+// Local player profiles: each has its own settings, levels, scores, history and statistics,
+// stored under its own key prefix. The color mode stays shared by the device.
+
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+export interface ProfileList {
+  activeId: string;
+  profiles: Profile[];
+}
+
+const PROFILES_KEY = 'fbk_profiles';
+// The first profile, which takes over the data saved before there were profiles
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = 'Player 1';
+
+const PROFILE_PREFIX = 'fbk_profile_';
+
+function getProfilePrefix(profileId: string): string {
+  return `${PROFILE_PREFIX}${profileId}/`;
+}
+
+// Ids of the profiles with data in storage, oldest first (ids grow with their creation time)
+function findStoredProfileIds(backend: StorageBackend): string[] {
+  const ids = new Set<string>();
+  for (const key of backend.keys()) {
+    const end = key.indexOf('/');
+    if (key.startsWith(PROFILE_PREFIX) && end > PROFILE_PREFIX.length) ids.add(key.slice(PROFILE_PREFIX.length, end));
+  }
+  return [...ids].sort();
+}
+
+// The storage of one profile, with the same keys as a single-player app
+export function getProfileBackend(backend: StorageBackend, profileId: string): StorageBackend {
+  return createPrefixedBackend(backend, getProfilePrefix(profileId));
+}
+
+function isProfileList(value: Partial<ProfileList>): value is ProfileList {
+  const { activeId, profiles } = value;
+  return Array.isArray(profiles) && profiles.length > 0
+    && profiles.every((p) => typeof p.id === 'string' && typeof p.name === 'string')
+    && profiles.some((p) => p.id === activeId);
+}
+
+// The saved profiles. The first call creates the default profile and moves the data
+// saved before profiles existed into it. A missing or unreadable list is rebuilt from the
+// profiles with data in storage, keeping the names that can still be read.
+export function loadProfiles(backend: StorageBackend): ProfileList {
+  const stored = readObject<Partial<ProfileList>>(backend, PROFILES_KEY, {});
+  if (isProfileList(stored)) return stored;
+  const profileBackend = getProfileBackend(backend, DEFAULT_PROFILE_ID);
+  for (const key of backend.keys()) {
+    if (key.startsWith('fbk_') && key !== PROFILES_KEY && !key.startsWith(PROFILE_PREFIX)) {
+      profileBackend.setItem(key, backend.getItem(key) ?? '');
+      backend.removeItem(key);
+    }
+  }
+  const names = new Map<string, string>();
+  for (const p of Array.isArray(stored.profiles) ? (stored.profiles as unknown[]) : []) {
+    if (isPlainObject(p) && typeof p.id === 'string' && typeof p.name === 'string') names.set(p.id, p.name);
+  }
+  const ids = [DEFAULT_PROFILE_ID, ...findStoredProfileIds(backend).filter((id) => id !== DEFAULT_PROFILE_ID)];
+  const profiles = ids.map((id, i) => ({ id, name: names.get(id) ?? (i === 0 ? DEFAULT_PROFILE_NAME : `Player ${i + 1}`) }));
+  const activeId = ids.find((id) => id === stored.activeId) ?? DEFAULT_PROFILE_ID;
+  const list = { activeId, profiles };
+  saveProfiles(backend, list);
+  return list;
+}
+
+export function saveProfiles(backend: StorageBackend, list: ProfileList): void {
+  writeValue(backend, PROFILES_KEY, list);
+}
+
+// Upgrade every profile's data to the current schema, see migrateStorage. Returns the profiles
+// whose data was saved by a newer version of the app, which are left untouched.
+export function migrateProfiles(backend: StorageBackend): Profile[] {
+  const newer: Profile[] = [];
+  for (const profile of loadProfiles(backend).profiles) {
+    try {
+      migrateStorage(getProfileBackend(backend, profile.id));
+    } catch (err) {
+      if (!(err instanceof StorageVersionError)) throw err;
+      newer.push(profile);
+    }
+  }
+  return newer;
+}
+
+export function createProfile(backend: StorageBackend, list: ProfileList, name: string): ProfileList {
+  const id = `p${Date.now().toString(36)}`;
+  migrateStorage(getProfileBackend(backend, id));
+  return { activeId: id, profiles: [...list.profiles, { id, name }] };
+}
+
+export function renameProfile(list: ProfileList, id: string, name: string): ProfileList {
+  return { ...list, profiles: list.profiles.map((p) => (p.id === id ? { ...p, name } : p)) };
+}
+
+// Remove a profile and its data; the last profile can't be deleted
+export function deleteProfile(backend: StorageBackend, list: ProfileList, id: string): ProfileList {
+  if (list.profiles.length <= 1) return list;
+  const profileBackend = getProfileBackend(backend, id);
+  profileBackend.keys().forEach((key) => profileBackend.removeItem(key));
+  const profiles = list.profiles.filter((p) => p.id !== id);
+  return { activeId: list.activeId === id ? profiles[0].id : list.activeId, profiles };
+}
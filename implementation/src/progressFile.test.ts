@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  PROGRESS_FILE_VERSION,
+  ProgressFileError,
+  exportProgress,
+  importProgress,
+  parseProgressFile,
+  type ProgressFile,
+} from './progressFile';
+import { SCHEMA_VERSION, SCHEMA_VERSION_KEY, createMemoryBackend } from './storage';
+import { createDayRecord } from './stats';
+
+// Imports migrate the file's data, which prunes its history relative to today
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function fileText(data: { [key: string]: string }, patch: object = {}): string {
+  return JSON.stringify({ app: 'fretboard-king', version: PROGRESS_FILE_VERSION, exportedAt: '2026-03-10T12:00:00.000Z', data, ...patch });
+}
+
+function progressFile(data: { [key: string]: string }): ProgressFile {
+  return parseProgressFile(fileText(data));
+}
+
+describe('parseProgressFile', () => {
+  function expectError(text: string, message: RegExp) {
+    expect(() => parseProgressFile(text)).toThrow(ProgressFileError);
+    expect(() => parseProgressFile(text)).toThrow(message);
+  }
+
+  it('reads an exported file', () => {
+    const data = { fbk_player_level: '4', fbk_settings: '{"baseTimer":5}' };
+    expect(parseProgressFile(fileText(data))).toEqual({
+      app: 'fretboard-king',
+      version: PROGRESS_FILE_VERSION,
+      exportedAt: '2026-03-10T12:00:00.000Z',
+      data,
+    });
+  });
+
+  it('refuses invalid JSON', () => {
+    expectError('{"app": ', /not valid JSON/);
+  });
+
+  it('refuses files of another app', () => {
+    expectError(fileText({}, { app: 'other-app' }), /not a Fretboard-King progress export/);
+    expectError('[]', /not a Fretboard-King progress export/);
+  });
+
+  it('refuses files without a valid version', () => {
+    expectError(fileText({}, { version: '1' }), /no valid version/);
+    expectError(fileText({}, { version: 0 }), /no valid version/);
+  });
+
+  it('refuses files of a newer version', () => {
+    expectError(fileText({}, { version: PROGRESS_FILE_VERSION + 1 }), /Update the app/);
+  });
+
+  it('refuses files without data, or with unexpected entries', () => {
+    expectError(fileText({}, { data: 'none' }), /no data section/);
+    expectError(fileText({ other_key: '1' }), /unexpected entry "other_key"/);
+    expectError(JSON.stringify({ app: 'fretboard-king', version: 1, data: { fbk_score: 12 } }), /unexpected entry "fbk_score"/);
+  });
+
+  it('skips the color mode of files from before profiles', () => {
+    expect(progressFile({ fbk_player_level: '4', 'color-mode': 'dark' }).data).toEqual({ fbk_player_level: '4' });
+  });
+
+  it('refuses a number key that is not a number', () => {
+    expectError(fileText({ 'fbk_player_level:bass': 'high' }), /invalid number for "fbk_player_level:bass"/);
+  });
+
+  it('refuses an object key that is not a JSON object', () => {
+    expectError(fileText({ fbk_mastery: '[1, 2]' }), /invalid data for "fbk_mastery"/);
+    expectError(fileText({ fbk_history: '{broken' }), /invalid data for "fbk_history"/);
+  });
+});
+
+describe('exportProgress', () => {
+  it('exports the app keys only', () => {
+    const storage = createMemoryBackend({ fbk_score: '120', 'fbk_player_level:intervals': '2', 'color-mode': 'dark', unrelated: 'x' });
+    expect(exportProgress(storage).data).toEqual({ fbk_score: '120', 'fbk_player_level:intervals': '2' });
+  });
+});
+
+describe('importProgress', () => {
+  it('replaces every local key in replace mode', () => {
+    const storage = createMemoryBackend({ fbk_player_level: '9', fbk_score: '300', unrelated: 'x' });
+    importProgress(progressFile({ fbk_player_level: '2' }), 'replace', storage);
+    // The imported data comes migrated to the current schema
+    expect(exportProgress(storage).data).toEqual({ fbk_player_level: '2', fbk_schema_version: String(SCHEMA_VERSION) });
+    expect(storage.getItem('unrelated')).toBe('x');
+  });
+
+  it('refuses data saved by a newer version of the app', () => {
+    const storage = createMemoryBackend({ fbk_player_level: '5' });
+    const file = progressFile({ fbk_schema_version: String(SCHEMA_VERSION + 1), fbk_player_level: '9' });
+    expect(() => importProgress(file, 'merge', storage)).toThrow(ProgressFileError);
+    expect(() => importProgress(file, 'replace', storage)).toThrow(/newer version of the app/);
+    expect(storage.getItem('fbk_player_level')).toBe('5');
+  });
+
+  it('keeps the higher level when merging', () => {
+    const storage = createMemoryBackend({ fbk_player_level: '5', 'fbk_player_level:bass': '1' });
+    importProgress(progressFile({ fbk_player_level: '3', 'fbk_player_level:bass': '4' }), 'merge', storage);
+    expect(storage.getItem('fbk_player_level')).toBe('5');
+    expect(storage.getItem('fbk_player_level:bass')).toBe('4');
+  });
+
+  it('keeps the score of the later day when merging', () => {
+    const storage = createMemoryBackend({ fbk_score: '300', fbk_date: '2026-03-09' });
+    importProgress(progressFile({ fbk_score: '40', fbk_date: '2026-03-10' }), 'merge', storage);
+    expect(storage.getItem('fbk_score')).toBe('40');
+    expect(storage.getItem('fbk_date')).toBe('2026-03-10');
+  });
+
+  it('combines the days of both histories when merging', () => {
+    const day = (rounds: number, score: number) => ({ ...createDayRecord(score), rounds });
+    const storage = createMemoryBackend({ fbk_history: JSON.stringify({ '2026-03-08': day(2, 100), '2026-03-09': day(1, 50), '2026-03-10': day(1, 30) }) });
+    const file = progressFile({
+      [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION),
+      fbk_history: JSON.stringify({ '2026-03-09': day(3, 40), '2026-03-10': day(1, 60), '2026-03-11': day(1, 20) }),
+    });
+    importProgress(file, 'merge', storage);
+    // Per day, the record with more rounds, or the higher score
+    expect(JSON.parse(storage.getItem('fbk_history')!)).toEqual({
+      '2026-03-08': day(2, 100),
+      '2026-03-09': day(3, 40),
+      '2026-03-10': day(1, 60),
+      '2026-03-11': day(1, 20),
+    });
+  });
+
+  it('keeps the review item due later when merging', () => {
+    const item = (due: string) => ({ ease: 2.5, interval: 6, repetitions: 2, due });
+    const storage = createMemoryBackend({ fbk_review: JSON.stringify({ '0:1': item('2026-03-20'), '0:2': item('2026-03-05') }) });
+    importProgress(progressFile({ fbk_review: JSON.stringify({ '0:1': item('2026-03-12'), '0:2': item('2026-03-15'), '0:3': item('2026-03-11') }) }), 'merge', storage);
+    expect(JSON.parse(storage.getItem('fbk_review')!)).toEqual({ '0:1': item('2026-03-20'), '0:2': item('2026-03-15'), '0:3': item('2026-03-11') });
+  });
+
+  it('keeps the local settings and adds missing keys when merging', () => {
+    const storage = createMemoryBackend({ fbk_settings: '{"baseTimer":5}' });
+    importProgress(progressFile({ fbk_settings: '{"baseTimer":3}', 'fbk_score:bass': '70' }), 'merge', storage);
+    expect(storage.getItem('fbk_settings')).toBe('{"baseTimer":5}');
+    expect(storage.getItem('fbk_score:bass')).toBe('70');
+  });
+});
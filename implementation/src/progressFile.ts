@@ -0,0 +1,216 @@
+import { createAchievementState, mergeAchievements, type AchievementState } from './achievements';
+import {
+  ACHIEVEMENTS_KEY,
+  CONFUSIONS_KEY,
+  CURRICULA_KEY,
+  DATE_KEY,
+  HISTORY_KEY,
+  MASTERY_KEY,
+  NUMBER_KEYS,
+  OBJECT_KEYS,
+  PLAYER_LEVEL_KEY,
+  REVIEW_KEY,
+  SCORE_KEY,
+  YESTERDAY_KEY,
+  StorageVersionError,
+  createLocalStorageBackend,
+  createMemoryBackend,
+  getBaseKey,
+  isPlainObject,
+  migrateStorage,
+  type StorageBackend,
+} from './storage';
+
+// Progress backup: every saved key of a profile (settings, levels, scores, history and
+// statistics, for every track and tuning) in one versioned JSON document, which can be
+// imported on another browser or device by merging it into or replacing a profile's data.
+
+export const PROGRESS_FILE_VERSION = 1;
+const APP_ID = 'fretboard-king';
+
+export interface ProgressFile {
+  app: string;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  data: { [key: string]: string }; // Raw stored values by storage key
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// A file that can't be imported; the message is meant for the player
+export class ProgressFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressFileError';
+  }
+}
+
+// Saved per device since profiles, so neither exported nor imported; older files still carry it
+const COLOR_MODE_KEY = 'color-mode';
+
+function isProgressKey(key: string): boolean {
+  return key.startsWith('fbk_');
+}
+
+function readProgress(storage: StorageBackend): { [key: string]: string } {
+  const data: { [key: string]: string } = {};
+  for (const key of storage.keys()) {
+    if (isProgressKey(key)) data[key] = storage.getItem(key) ?? '';
+  }
+  return data;
+}
+
+export function exportProgress(storage: StorageBackend = createLocalStorageBackend()): ProgressFile {
+  return { app: APP_ID, version: PROGRESS_FILE_VERSION, exportedAt: new Date().toISOString(), data: readProgress(storage) };
+}
+
+// Parse and validate an imported file; throws ProgressFileError explaining what is wrong
+export function parseProgressFile(text: string): ProgressFile {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ProgressFileError('This file is not valid JSON.');
+  }
+  if (!isPlainObject(file) || file.app !== APP_ID) {
+    throw new ProgressFileError('This file is not a Fretboard-King progress export.');
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw new ProgressFileError('The progress file has no valid version number.');
+  }
+  if (file.version > PROGRESS_FILE_VERSION) {
+    throw new ProgressFileError(
+      `The progress file is version ${file.version}, but this app only reads up to version ${PROGRESS_FILE_VERSION}. Update the app and try again.`,
+    );
+  }
+  if (!isPlainObject(file.data)) {
+    throw new ProgressFileError('The progress file has no data section.');
+  }
+  const data: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(file.data)) {
+    if (key === COLOR_MODE_KEY) continue;
+    if (!isProgressKey(key) || typeof value !== 'string') {
+      throw new ProgressFileError(`The progress file contains an unexpected entry "${key}".`);
+    }
+    const base = getBaseKey(key);
+    if (NUMBER_KEYS.includes(base) && !Number.isFinite(Number(value))) {
+      throw new ProgressFileError(`The progress file has an invalid number for "${key}".`);
+    }
+    if (OBJECT_KEYS.includes(base)) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        parsed = null;
+      }
+      if (!isPlainObject(parsed)) {
+        throw new ProgressFileError(`The progress file has invalid data for "${key}".`);
+      }
+    }
+    data[key] = value;
+  }
+  return {
+    app: APP_ID,
+    version: file.version,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    data,
+  };
+}
+
+// Merge two JSON objects entry by entry, `pick` choosing between both sides' values of a shared entry
+function mergeObjects(local: string, imported: string, pick: (a: unknown, b: unknown) => unknown): string {
+  const a = JSON.parse(local) as { [key: string]: unknown };
+  const b = JSON.parse(imported) as { [key: string]: unknown };
+  const merged = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    merged[key] = key in a ? pick(a[key], value) : value;
+  }
+  return JSON.stringify(merged);
+}
+
+function getNumber(value: unknown, field: string): number {
+  return isPlainObject(value) && typeof value[field] === 'number' ? value[field] : 0;
+}
+
+function getTotal(value: unknown): number {
+  return isPlainObject(value) ? Object.keys(value).reduce((sum, field) => sum + getNumber(value, field), 0) : 0;
+}
+
+// The merged value of one key present on both sides. Progress keeps the better of both:
+// the higher level, the score of the later day, the richer statistics and the achievements
+// of both. Settings stay local.
+function mergeValue(key: string, local: string, imported: string, localData: { [key: string]: string }, importedData: { [key: string]: string }): string {
+  const base = getBaseKey(key);
+  const scope = key.slice(base.length);
+  try {
+    switch (base) {
+      case PLAYER_LEVEL_KEY:
+        return String(Math.max(Number(local), Number(imported)));
+      case SCORE_KEY:
+      case YESTERDAY_KEY: {
+        // Scores belong to the day they were saved on
+        const localDate = localData[DATE_KEY + scope] ?? '';
+        const importedDate = importedData[DATE_KEY + scope] ?? '';
+        if (importedDate !== localDate) return importedDate > localDate ? imported : local;
+        return String(Math.max(Number(local), Number(imported)));
+      }
+      case DATE_KEY:
+        return imported > local ? imported : local;
+      case HISTORY_KEY:
+        // The day record with more rounds, or the higher score
+        return mergeObjects(local, imported, (a, b) => {
+          const rounds = getNumber(b, 'rounds') - getNumber(a, 'rounds');
+          return rounds > 0 || (rounds === 0 && getNumber(b, 'score') > getNumber(a, 'score')) ? b : a;
+        });
+      case MASTERY_KEY:
+        return mergeObjects(local, imported, (a, b) => (getNumber(b, 'attempts') > getNumber(a, 'attempts') ? b : a));
+      case CONFUSIONS_KEY:
+        // Per asked note, the side with more recorded wrong answers
+        return mergeObjects(local, imported, (a, b) => (getTotal(b) > getTotal(a) ? b : a));
+      case ACHIEVEMENTS_KEY: {
+        const read = (text: string): AchievementState => ({ ...createAchievementState(), ...JSON.parse(text) });
+        return JSON.stringify(mergeAchievements(read(local), read(imported)));
+      }
+      case CURRICULA_KEY:
+        // Curricula of both sides; one saved on both keeps the local edits
+        return mergeObjects(local, imported, (a) => a);
+      case REVIEW_KEY:
+        return mergeObjects(local, imported, (a, b) => {
+          const dueA = isPlainObject(a) ? String(a.due) : '';
+          const dueB = isPlainObject(b) ? String(b.due) : '';
+          return dueB > dueA ? b : a;
+        });
+      default:
+        return local;
+    }
+  } catch {
+    // Unreadable local data: the validated import wins
+    return imported;
+  }
+}
+
+// Write an imported file into storage: merge it with the local progress or replace it entirely.
+// Data saved by an earlier app version is migrated to the current schema first.
+export function importProgress(file: ProgressFile, mode: ImportMode, storage: StorageBackend = createLocalStorageBackend()): void {
+  const incoming = createMemoryBackend(file.data);
+  try {
+    migrateStorage(incoming);
+  } catch (err) {
+    if (err instanceof StorageVersionError) {
+      throw new ProgressFileError('The progress file was saved by a newer version of the app. Update the app and try again.');
+    }
+    throw err;
+  }
+  const importedData = readProgress(incoming);
+  const localData = readProgress(storage);
+  if (mode === 'replace') {
+    Object.keys(localData).forEach((key) => storage.removeItem(key));
+    Object.entries(importedData).forEach(([key, value]) => storage.setItem(key, value));
+    return;
+  }
+  const merged: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(importedData)) {
+    merged[key] = key in localData ? mergeValue(key, localData[key], value, localData, importedData) : value;
+  }
+  Object.entries(merged).forEach(([key, value]) => storage.setItem(key, value));
+}
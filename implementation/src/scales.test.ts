@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getBoxPositions, getRandomBoxQuiz, getScaleType } from './scales';
+
+// Seeded RNG (a linear congruential generator), so every run hides the same notes
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+}
+
+const GUITAR = ['E', 'B', 'G', 'D', 'A', 'E'];
+
+describe('getScaleType', () => {
+  it('finds scales and arpeggios by id', () => {
+    expect(getScaleType('minorPentatonic').intervals).toEqual([0, 3, 5, 7, 10]);
+    expect(getScaleType('dom7Arpeggio').degrees).toEqual(['1', '3', '5', 'b7']);
+  });
+});
+
+describe('getRandomBoxQuiz', () => {
+  for (const system of ['caged', 'nps'] as const) {
+    it(`splits a ${system} box into shown and missing notes`, () => {
+      const scale = getScaleType('major');
+      const random = createRandom(7);
+      for (let i = 0; i < 20; i++) {
+        const quiz = getRandomBoxQuiz(GUITAR, 24, 'G', scale, system, random);
+        if (!quiz) throw new Error('expected a box quiz');
+        expect(quiz.box.system).toBe(system);
+        const positions = getBoxPositions(GUITAR, 24, 'G', scale, quiz.box);
+        expect([...quiz.shown, ...quiz.missing]).toHaveLength(positions.length);
+        expect(quiz.missing.length).toBeGreaterThanOrEqual(3);
+        quiz.missing.forEach((p) => expect(positions).toContainEqual(p));
+      }
+    });
+  }
+
+  it('hides the same notes with the same seed', () => {
+    const ask = (seed: number) => getRandomBoxQuiz(GUITAR, 24, 'A', getScaleType('minorPentatonic'), 'caged', createRandom(seed));
+    expect(ask(3)).toEqual(ask(3));
+  });
+});
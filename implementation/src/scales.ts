@@ -0,0 +1,182 @@
+import { NOTE_NAMES, getNoteName } from './notes';
+import { getStringOffsets } from './tunings';
+import type { FretPosition } from './components/Fretboard';
+
+export interface ScaleType {
+  id: string;
+  name: string;
+  intervals: number[]; // Semitones above the root, one per degree
+  degrees: string[]; // Degree labels, parallel to intervals
+}
+
+export const SCALE_TYPES: ScaleType[] = [
+  { id: 'major', name: 'Major (Ionian)', intervals: [0, 2, 4, 5, 7, 9, 11], degrees: ['1', '2', '3', '4', '5', '6', '7'] },
+  { id: 'minor', name: 'Natural minor (Aeolian)', intervals: [0, 2, 3, 5, 7, 8, 10], degrees: ['1', '2', 'b3', '4', '5', 'b6', 'b7'] },
+  { id: 'majorPentatonic', name: 'Major pentatonic', intervals: [0, 2, 4, 7, 9], degrees: ['1', '2', '3', '5', '6'] },
+  { id: 'minorPentatonic', name: 'Minor pentatonic', intervals: [0, 3, 5, 7, 10], degrees: ['1', 'b3', '4', '5', 'b7'] },
+  { id: 'dorian', name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10], degrees: ['1', '2', 'b3', '4', '5', '6', 'b7'] },
+  { id: 'phrygian', name: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10], degrees: ['1', 'b2', 'b3', '4', '5', 'b6', 'b7'] },
+  { id: 'lydian', name: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11], degrees: ['1', '2', '3', '#4', '5', '6', '7'] },
+  { id: 'mixolydian', name: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10], degrees: ['1', '2', '3', '4', '5', '6', 'b7'] },
+  { id: 'locrian', name: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10], degrees: ['1', 'b2', 'b3', '4', 'b5', 'b6', 'b7'] },
+  { id: 'harmonicMinor', name: 'Harmonic minor', intervals: [0, 2, 3, 5, 7, 8, 11], degrees: ['1', '2', 'b3', '4', '5', 'b6', '7'] },
+];
+
+// Arpeggios: the chord tones of triads and seventh chords, explored and boxed like a scale
+export const ARPEGGIO_TYPES: ScaleType[] = [
+  { id: 'majorArpeggio', name: 'Major arpeggio', intervals: [0, 4, 7], degrees: ['1', '3', '5'] },
+  { id: 'minorArpeggio', name: 'Minor arpeggio', intervals: [0, 3, 7], degrees: ['1', 'b3', '5'] },
+  { id: 'dimArpeggio', name: 'Diminished arpeggio', intervals: [0, 3, 6], degrees: ['1', 'b3', 'b5'] },
+  { id: 'augArpeggio', name: 'Augmented arpeggio', intervals: [0, 4, 8], degrees: ['1', '3', '#5'] },
+  { id: 'dom7Arpeggio', name: 'Dominant 7th arpeggio', intervals: [0, 4, 7, 10], degrees: ['1', '3', '5', 'b7'] },
+  { id: 'maj7Arpeggio', name: 'Major 7th arpeggio', intervals: [0, 4, 7, 11], degrees: ['1', '3', '5', '7'] },
+  { id: 'min7Arpeggio', name: 'Minor 7th arpeggio', intervals: [0, 3, 7, 10], degrees: ['1', 'b3', '5', 'b7'] },
+  { id: 'm7b5Arpeggio', name: 'Half-diminished arpeggio', intervals: [0, 3, 6, 10], degrees: ['1', 'b3', 'b5', 'b7'] },
+];
+
+// One color per scale degree; the root (degree 0) uses the primary color
+export const DEGREE_COLORS = ['var(--primary)', '#43a047', '#fb8c00', '#8e24aa', '#00897b', '#c0ca33', '#6d4c41'];
+
+export interface ScalePosition extends FretPosition {
+  degree: number; // Index into the scale's intervals/degrees
+}
+
+export function getScaleType(scaleId: string): ScaleType {
+  return [...SCALE_TYPES, ...ARPEGGIO_TYPES].find((scale) => scale.id === scaleId) ?? SCALE_TYPES[0];
+}
+
+// Scale degree index of a note, or -1 if the note is not in the scale
+function getDegree(note: string, root: string, scale: ScaleType): number {
+  const semitones = (NOTE_NAMES.indexOf(note) - NOTE_NAMES.indexOf(root) + 12) % 12;
+  return scale.intervals.indexOf(semitones);
+}
+
+// Every position on the neck that belongs to the scale
+export function getScalePositions(strings: string[], fretCount: number, root: string, scale: ScaleType): ScalePosition[] {
+  const positions = [];
+  for (let stringIdx = 0; stringIdx < strings.length; stringIdx++) {
+    for (let fretIdx = 0; fretIdx <= fretCount; fretIdx++) {
+      const degree = getDegree(getNoteName(strings[stringIdx], fretIdx), root, scale);
+      if (degree >= 0) {
+        positions.push({ stringIdx, fretIdx, degree });
+      }
+    }
+  }
+  return positions;
+}
+
+// Box systems for position playing:
+// - CAGED: five fret windows named after the open chord shape they are built around
+// - Notes per string: 3 consecutive scale notes on every string (2 for pentatonic scales and arpeggios),
+//   starting from a given degree on the lowest string
+export type BoxSpec = { system: 'caged'; shape: CagedShape } | { system: 'nps'; startDegree: number };
+
+export type CagedShape = 'C' | 'A' | 'G' | 'E' | 'D';
+
+export const CAGED_SHAPES: CagedShape[] = ['C', 'A', 'G', 'E', 'D'];
+
+// Fret window of each CAGED shape, relative to the root's fret on the lowest string
+const CAGED_WINDOWS: Record<CagedShape, [number, number]> = {
+  E: [-1, 2],
+  D: [2, 5],
+  C: [4, 7],
+  A: [6, 9],
+  G: [9, 12],
+};
+
+export function getNotesPerString(scale: ScaleType): number {
+  return scale.intervals.length >= 7 ? 3 : 2;
+}
+
+export function getBoxName(box: BoxSpec, scale: ScaleType): string {
+  return box.system === 'caged'
+    ? `${box.shape} shape`
+    : `${getNotesPerString(scale)} notes per string from ${scale.degrees[box.startDegree]}`;
+}
+
+export function getAllBoxes(scale: ScaleType): BoxSpec[] {
+  return [
+    ...CAGED_SHAPES.map((shape): BoxSpec => ({ system: 'caged', shape })),
+    ...scale.degrees.map((_, startDegree): BoxSpec => ({ system: 'nps', startDegree })),
+  ];
+}
+
+// Positions of a box, placed as low on the neck as it fits; empty if it doesn't fit at all
+export function getBoxPositions(
+  strings: string[],
+  fretCount: number,
+  root: string,
+  scale: ScaleType,
+  box: BoxSpec,
+): ScalePosition[] {
+  const lowest = strings.length - 1;
+  const rootFret = (NOTE_NAMES.indexOf(root) - NOTE_NAMES.indexOf(strings[lowest]) + 12) % 12;
+
+  if (box.system === 'caged') {
+    const [from, to] = CAGED_WINDOWS[box.shape];
+    for (const shift of [-12, 0, 12]) {
+      const minFret = rootFret + from + shift;
+      const maxFret = rootFret + to + shift;
+      if (minFret < 0 || maxFret > fretCount) continue;
+      return getScalePositions(strings, fretCount, root, scale)
+        .filter((p) => p.fretIdx >= minFret && p.fretIdx <= maxFret);
+    }
+    return [];
+  }
+
+  // Notes per string: walk up the scale from the start degree, a fixed number of notes per string
+  const offsets = getStringOffsets(strings);
+  const perString = getNotesPerString(scale);
+  const startFret = (rootFret + scale.intervals[box.startDegree]) % 12;
+  for (const shift of [0, 12]) {
+    const positions: ScalePosition[] = [];
+    let degree = box.startDegree;
+    let pitch = offsets[lowest] + startFret + shift;
+    for (let stringIdx = lowest; stringIdx >= 0; stringIdx--) {
+      for (let n = 0; n < perString; n++) {
+        positions.push({ stringIdx, fretIdx: pitch - offsets[stringIdx], degree });
+        const next = (degree + 1) % scale.intervals.length;
+        pitch += (scale.intervals[next] - scale.intervals[degree] + 12) % 12;
+        degree = next;
+      }
+    }
+    if (positions.every((p) => p.fretIdx >= 0 && p.fretIdx <= fretCount)) {
+      return positions;
+    }
+  }
+  return [];
+}
+
+function getRandomInt(max: number, random: () => number) {
+  return Math.floor(random() * max);
+}
+
+export interface BoxQuiz {
+  box: BoxSpec;
+  shown: ScalePosition[];
+  missing: ScalePosition[];
+}
+
+// Pick a box of the given system that fits the neck and hide about a third of its notes
+export function getRandomBoxQuiz(
+  strings: string[],
+  fretCount: number,
+  root: string,
+  scale: ScaleType,
+  system: BoxSpec['system'],
+  random: () => number = Math.random,
+): BoxQuiz | null {
+  const candidates = getAllBoxes(scale)
+    .filter((box) => box.system === system)
+    .map((box) => ({ box, positions: getBoxPositions(strings, fretCount, root, scale, box) }))
+    .filter((c) => c.positions.length > 0);
+  if (candidates.length === 0) return null;
+  const { box, positions } = candidates[getRandomInt(candidates.length, random)];
+  const missingCount = Math.max(3, Math.round(positions.length / 3));
+  const shuffled = [...positions].sort(() => random() - 0.5);
+  return {
+    box,
+    shown: shuffled.slice(missingCount),
+    missing: shuffled.slice(0, missingCount),
+  };
+}
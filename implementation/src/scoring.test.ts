@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { formatReactionTime, getAdaptiveTimer, getAnswerPoints, getMedian, getStreakMultiplier } from './scoring';
+
+describe('getStreakMultiplier', () => {
+  it('grows by 0.5 every 3 correct answers in a row, up to ×3', () => {
+    expect([0, 1, 2, 3, 5, 6, 9, 12, 30].map(getStreakMultiplier)).toEqual([1, 1, 1, 1.5, 1.5, 2, 2.5, 3, 3]);
+  });
+});
+
+describe('getAnswerPoints', () => {
+  it('gives 10 base points and up to 10 more for speed', () => {
+    expect(getAnswerPoints(0, 5000, 1)).toBe(20);
+    expect(getAnswerPoints(2500, 5000, 1)).toBe(15);
+    expect(getAnswerPoints(5000, 5000, 1)).toBe(10);
+    expect(getAnswerPoints(8000, 5000, 1)).toBe(10);
+  });
+
+  it('multiplies by the streak', () => {
+    expect(getAnswerPoints(2500, 5000, 3)).toBe(23);
+    expect(getAnswerPoints(0, 5000, 12)).toBe(60);
+  });
+
+  it('gives no speed bonus without a time limit', () => {
+    expect(getAnswerPoints(0, 0, 1)).toBe(10);
+  });
+});
+
+describe('getMedian', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(getMedian([])).toBeNull();
+    expect(getMedian([3000, 1000, 2000])).toBe(2000);
+    expect(getMedian([4000, 1000, 3000, 2000])).toBe(2500);
+  });
+});
+
+describe('getAdaptiveTimer', () => {
+  it('starts at twice the base timer without measurements', () => {
+    expect(getAdaptiveTimer(5, [])).toBe(10);
+  });
+
+  it('allows two and a half times the median response', () => {
+    expect(getAdaptiveTimer(5, [1500, 1600, 1700])).toBe(4);
+  });
+
+  it('stays between 0.7x and 2x the base timer, and at least a second', () => {
+    expect(getAdaptiveTimer(5, [200])).toBe(4); // 3.5s, rounded
+    expect(getAdaptiveTimer(5, [10000])).toBe(10);
+    expect(getAdaptiveTimer(1, [100])).toBe(1);
+  });
+});
+
+describe('formatReactionTime', () => {
+  it('shows seconds with two decimals', () => {
+    expect(formatReactionTime(1234)).toBe('1.23s');
+  });
+});
@@ -0,0 +1,40 @@
+// Speed-based scoring: a correct answer earns base points plus a bonus that shrinks
+// with the reaction time, multiplied by the current streak of correct answers.
+
+const BASE_POINTS = 10;
+const MAX_SPEED_BONUS = 10; // Earned by an instant answer, falling to 0 at the time limit
+const STREAK_STEP = 3; // Correct answers in a row per multiplier step
+const MAX_MULTIPLIER = 3;
+
+// ×1 for the first answers, then +0.5 for every STREAK_STEP correct answers in a row, up to ×3
+export function getStreakMultiplier(streak: number): number {
+  return Math.min(MAX_MULTIPLIER, 1 + 0.5 * Math.floor(streak / STREAK_STEP));
+}
+
+// Points for a correct answer given in `time` ms out of `timeLimit` ms, `streak` being the
+// number of correct answers in a row including this one
+export function getAnswerPoints(time: number, timeLimit: number, streak: number): number {
+  const speed = timeLimit > 0 ? Math.max(0, 1 - time / timeLimit) : 0;
+  return Math.round((BASE_POINTS + MAX_SPEED_BONUS * speed) * getStreakMultiplier(streak));
+}
+
+export function getMedian(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Seconds per question, adapted to measured reaction times: about two and a half times the
+// player's median recent response, kept between 0.7x and 2x the base timer.
+// Without measurements yet, start generous like a beginner.
+export function getAdaptiveTimer(baseTimer: number, recentTimes: number[]): number {
+  const median = getMedian(recentTimes);
+  if (median === null) return baseTimer * 2;
+  const seconds = (median * 2.5) / 1000;
+  return Math.max(1, Math.round(Math.min(baseTimer * 2, Math.max(baseTimer * 0.7, seconds))));
+}
+
+export function formatReactionTime(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
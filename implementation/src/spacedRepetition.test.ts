@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, getDuePositions, getReviewQuality, recordReview, scheduleReview, type ReviewItem } from './spacedRepetition';
+
+const TODAY = '2026-03-10';
+
+describe('addDays', () => {
+  it('crosses month and year ends', () => {
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+describe('getReviewQuality', () => {
+  it('grades wrong answers 1 and right ones by speed', () => {
+    expect(getReviewQuality(false, 500)).toBe(1);
+    expect(getReviewQuality(true, 2000)).toBe(5);
+    expect(getReviewQuality(true, 2001)).toBe(4);
+    expect(getReviewQuality(true, 5000)).toBe(4);
+    expect(getReviewQuality(true, 5001)).toBe(3);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('grows the interval 1 → 6 → interval × ease days', () => {
+    const first = scheduleReview(undefined, 5, TODAY);
+    expect(first).toEqual({ ease: 2.6, interval: 1, repetitions: 1, due: '2026-03-11' });
+    const second = scheduleReview(first, 5, first.due);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2, due: '2026-03-17' });
+    expect(second.ease).toBeCloseTo(2.7);
+    const third = scheduleReview(second, 4, second.due);
+    expect(third.ease).toBeCloseTo(2.7); // A grade of 4 keeps the ease
+    expect(third).toMatchObject({ interval: 16, repetitions: 3, due: '2026-04-02' });
+  });
+
+  it('lowers the ease for hard answers', () => {
+    expect(scheduleReview(undefined, 3, TODAY).ease).toBeCloseTo(2.36);
+  });
+
+  it('starts a failed item over the next day', () => {
+    const learned: ReviewItem = { ease: 2.5, interval: 16, repetitions: 3, due: TODAY };
+    const failed = scheduleReview(learned, 1, TODAY);
+    expect(failed).toMatchObject({ interval: 1, repetitions: 0, due: '2026-03-11' });
+    expect(failed.ease).toBeCloseTo(1.96);
+  });
+
+  it('never drops the ease below 1.3', () => {
+    let item: ReviewItem | undefined;
+    for (let i = 0; i < 10; i++) item = scheduleReview(item, 1, TODAY);
+    expect(item!.ease).toBe(1.3);
+  });
+});
+
+describe('recordReview', () => {
+  it('schedules the answered cell by its cell key', () => {
+    const schedule = recordReview({}, { stringIdx: 2, fretIdx: 5 }, true, 1000, TODAY);
+    expect(Object.keys(schedule)).toEqual(['2:5']);
+    expect(schedule['2:5'].due).toBe('2026-03-11');
+  });
+});
+
+describe('getDuePositions', () => {
+  const item = (due: string, ease: number = 2.5): ReviewItem => ({ ease, interval: 1, repetitions: 1, due });
+
+  it('lists due cells most overdue first, harder cells first on the same day', () => {
+    const schedule = {
+      '0:1': item('2026-03-10'),
+      '1:2': item('2026-03-08'),
+      '2:3': item('2026-03-10', 1.5),
+      '3:4': item('2026-03-11'),
+    };
+    expect(getDuePositions(schedule, TODAY, 6, 12)).toEqual([
+      { stringIdx: 1, fretIdx: 2 },
+      { stringIdx: 2, fretIdx: 3 },
+      { stringIdx: 0, fretIdx: 1 },
+    ]);
+  });
+
+  it('leaves out cells beyond the current neck', () => {
+    const schedule = { '5:3': item(TODAY), '6:3': item(TODAY), '0:15': item(TODAY) };
+    expect(getDuePositions(schedule, TODAY, 6, 12)).toEqual([{ stringIdx: 5, fretIdx: 3 }]);
+  });
+});
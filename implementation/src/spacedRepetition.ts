@@ -0,0 +1,70 @@
+import { getCellKey } from './mastery';
+import type { FretPosition } from './components/Fretboard';
+
+// SM-2 style spaced repetition for fretboard cells (a string/fret pair, and so its note):
+// every answer grades the cell 0-5, and the grade sets when the cell is due again.
+
+export interface ReviewItem {
+  ease: number; // Ease factor: how fast the interval grows, never below MIN_EASE
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  due: string; // YYYY-MM-DD
+}
+
+// Review items keyed by 'stringIdx:fretIdx'
+export type ReviewSchedule = { [cell: string]: ReviewItem };
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const FAST_ANSWER = 2000; // ms; correct answers this fast are graded "perfect"
+const SLOW_ANSWER = 5000; // ms; correct answers slower than this are graded "hard"
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// SM-2 grade for an answer: 5 perfect, 4 hesitant, 3 hard but right, 1 wrong
+export function getReviewQuality(correct: boolean, time: number): number {
+  if (!correct) return 1;
+  if (time <= FAST_ANSWER) return 5;
+  if (time <= SLOW_ANSWER) return 4;
+  return 3;
+}
+
+// Next state of an item after a review graded `quality` on `today`.
+// A failed review starts the item over; a passed one grows the interval 1 → 6 → interval × ease days.
+export function scheduleReview(item: ReviewItem | undefined, quality: number, today: string): ReviewItem {
+  const previous = item ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0, due: today };
+  const ease = Math.max(MIN_EASE, previous.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  if (quality < 3) {
+    return { ease, interval: 1, repetitions: 0, due: addDays(today, 1) };
+  }
+  const repetitions = previous.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * ease);
+  return { ease, interval, repetitions, due: addDays(today, interval) };
+}
+
+export function recordReview(
+  schedule: ReviewSchedule,
+  position: FretPosition,
+  correct: boolean,
+  time: number,
+  today: string,
+): ReviewSchedule {
+  const key = getCellKey(position);
+  return { ...schedule, [key]: scheduleReview(schedule[key], getReviewQuality(correct, time), today) };
+}
+
+// Cells due on or before today, most overdue first, limited to the cells on the current neck
+export function getDuePositions(schedule: ReviewSchedule, today: string, stringCount: number, fretCount: number): FretPosition[] {
+  return Object.entries(schedule)
+    .filter(([, item]) => item.due <= today)
+    .sort(([, a], [, b]) => (a.due < b.due ? -1 : a.due > b.due ? 1 : a.ease - b.ease))
+    .map(([key]) => {
+      const [stringIdx, fretIdx] = key.split(':').map(Number);
+      return { stringIdx, fretIdx };
+    })
+    .filter((p) => p.stringIdx < stringCount && p.fretIdx <= fretCount);
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getResponseTimeTrend } from './stats';
+import type { AnswerRecord } from './answerLog';
+
+function answer(timestamp: string, time: number): AnswerRecord {
+  return { timestamp: Date.parse(timestamp), profileId: 'default', scope: 'standard', mode: 'identify', correct: true, time };
+}
+
+describe('getResponseTimeTrend', () => {
+  it('gives the median response time of each day with answers in the range', () => {
+    const answers = [
+      answer('2026-03-08T09:00:00Z', 1000),
+      answer('2026-03-10T09:00:00Z', 3000),
+      answer('2026-03-10T09:00:05Z', 1000),
+      answer('2026-03-10T18:00:00Z', 1500),
+      answer('2026-03-11T09:00:00Z', 900),
+    ];
+    expect(getResponseTimeTrend(answers, ['2026-03-09', '2026-03-10', '2026-03-11'])).toEqual([
+      { date: '2026-03-10', median: 1500, answers: 3 },
+      { date: '2026-03-11', median: 900, answers: 1 },
+    ]);
+  });
+});
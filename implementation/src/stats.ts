@@ -0,0 +1,144 @@
+import { addDays } from './spacedRepetition';
+import { getMedian } from './scoring';
+import type { AnswerRecord } from './answerLog';
+
+// Daily practice records and the statistics derived from them for the Stats tab
+
+// One day of practice on a track and tuning
+export interface DayRecord {
+  score: number; // Points scored that day
+  rounds: number; // Completed rounds
+  questions: number;
+  correct: number;
+  levels: { [level: number]: number }; // Completed rounds per level practiced
+  levelUps: number[]; // Levels reached that day
+}
+
+// Daily records by 'YYYY-MM-DD'
+export type History = { [date: string]: DayRecord };
+
+export function createDayRecord(score: number = 0): DayRecord {
+  return { score, rounds: 0, questions: 0, correct: 0, levels: {}, levelUps: [] };
+}
+
+export function setDayScore(history: History, date: string, score: number): History {
+  return { ...history, [date]: { ...(history[date] ?? createDayRecord()), score } };
+}
+
+// Add a completed round to the day's record; `level` is the ladder level practiced (null for rounds
+// outside the ladder, such as fret windows), `levelUp` the level reached by passing it, if any
+export function recordRound(
+  history: History,
+  date: string,
+  round: { level: number | null; questions: number; correct: number; levelUp: number | null },
+): History {
+  const day = history[date] ?? createDayRecord();
+  return {
+    ...history,
+    [date]: {
+      ...day,
+      rounds: day.rounds + 1,
+      questions: day.questions + round.questions,
+      correct: day.correct + round.correct,
+      levels: round.level === null ? day.levels : { ...day.levels, [round.level]: (day.levels[round.level] ?? 0) + 1 },
+      levelUps: round.levelUp === null ? day.levelUps : [...day.levelUps, round.levelUp],
+    },
+  };
+}
+
+export type StatsRange = 'week' | 'month' | 'year' | 'all';
+
+const RANGE_DAYS: Record<Exclude<StatsRange, 'all'>, number> = { week: 7, month: 30, year: 365 };
+
+// Every date of the range, oldest first; 'all' starts at the first recorded day
+export function getRangeDates(range: StatsRange, history: History, today: string): string[] {
+  let first: string;
+  if (range === 'all') {
+    const recorded = Object.keys(history).sort();
+    first = recorded.length > 0 && recorded[0] < today ? recorded[0] : today;
+  } else {
+    first = addDays(today, -RANGE_DAYS[range] + 1);
+  }
+  const dates: string[] = [];
+  for (let date = first; date <= today; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+export interface StatsSummary {
+  daysPracticed: number;
+  rounds: number;
+  questions: number;
+  correct: number;
+  score: number;
+}
+
+export function summarize(history: History, dates: string[]): StatsSummary {
+  const summary = { daysPracticed: 0, rounds: 0, questions: 0, correct: 0, score: 0 };
+  for (const date of dates) {
+    const day = history[date];
+    if (!day) continue;
+    if (day.rounds > 0 || day.score > 0) summary.daysPracticed++;
+    summary.rounds += day.rounds;
+    summary.questions += day.questions;
+    summary.correct += day.correct;
+    summary.score += day.score;
+  }
+  return summary;
+}
+
+// Accuracy (0..1) of each day with answers, and its rolling average over the last `window` such days
+export function getAccuracyTrend(history: History, dates: string[], window: number = 7): { date: string; accuracy: number; average: number }[] {
+  const days = dates.filter((date) => (history[date]?.questions ?? 0) > 0);
+  return days.map((date, i) => {
+    const recent = days.slice(Math.max(0, i - window + 1), i + 1);
+    const questions = recent.reduce((sum, d) => sum + history[d].questions, 0);
+    const correct = recent.reduce((sum, d) => sum + history[d].correct, 0);
+    return { date, accuracy: history[date].correct / history[date].questions, average: correct / questions };
+  });
+}
+
+// Median response time (ms) of each day with logged answers, from the answer log
+export function getResponseTimeTrend(answers: AnswerRecord[], dates: string[]): { date: string; median: number; answers: number }[] {
+  const times: { [date: string]: number[] } = {};
+  for (const answer of answers) {
+    const date = new Date(answer.timestamp).toISOString().slice(0, 10);
+    (times[date] ??= []).push(answer.time);
+  }
+  return dates
+    .filter((date) => times[date])
+    .map((date) => ({ date, median: getMedian(times[date])!, answers: times[date].length }));
+}
+
+// Completed rounds per level within the dates, lowest level first
+export function getRoundsPerLevel(history: History, dates: string[]): { level: number; rounds: number }[] {
+  const rounds: { [level: number]: number } = {};
+  for (const date of dates) {
+    for (const [level, count] of Object.entries(history[date]?.levels ?? {})) {
+      rounds[Number(level)] = (rounds[Number(level)] ?? 0) + count;
+    }
+  }
+  return Object.entries(rounds)
+    .map(([level, count]) => ({ level: Number(level), rounds: count }))
+    .sort((a, b) => a.level - b.level);
+}
+
+// For every recorded level-up: the day it happened, the days it took since the previous
+// level-up (or the first recorded practice day), and the rounds played at the level below
+export function getLevelUpTimes(history: History): { level: number; date: string; days: number; rounds: number }[] {
+  const dates = Object.keys(history).sort();
+  const roundsPerLevel = getRoundsPerLevel(history, dates);
+  const result: { level: number; date: string; days: number; rounds: number }[] = [];
+  let since = dates[0];
+  for (const date of dates) {
+    for (const level of history[date].levelUps) {
+      result.push({
+        level,
+        date,
+        days: Math.round((Date.parse(date) - Date.parse(since)) / 86400000),
+        rounds: roundsPerLevel.find((r) => r.level === level - 1)?.rounds ?? 0,
+      });
+      since = date;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HISTORY_DAYS,
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  StorageVersionError,
+  createMemoryBackend,
+  getProgressKey,
+  migrateStorage,
+  pruneHistory,
+  readNumber,
+  readObject,
+  writeValue,
+} from './storage';
+import { DEFAULT_TUNING_KEY } from './instruments';
+import { createDayRecord } from './stats';
+
+const TODAY = '2026-03-10';
+
+// Everything in a backend, for comparing whole states
+function dump(backend: ReturnType<typeof createMemoryBackend>): { [key: string]: string } {
+  return Object.fromEntries(backend.keys().map((key) => [key, backend.getItem(key)!]));
+}
+
+describe('reading and writing', () => {
+  it('reads numbers and objects, falling back on missing or malformed values', () => {
+    const backend = createMemoryBackend({ fbk_score: '120', fbk_yesterday: 'lots', fbk_mastery: '[1]', fbk_review: '{"0:1":{}}' });
+    expect(readNumber(backend, 'fbk_score')).toBe(120);
+    expect(readNumber(backend, 'fbk_yesterday', 7)).toBe(7);
+    expect(readNumber(backend, 'fbk_player_level')).toBe(0);
+    expect(readObject(backend, 'fbk_mastery', { empty: true })).toEqual({ empty: true });
+    expect(readObject(backend, 'fbk_review', {})).toEqual({ '0:1': {} });
+  });
+
+  it('writes objects as JSON and numbers as text', () => {
+    const backend = createMemoryBackend();
+    writeValue(backend, 'fbk_settings', { baseTimer: 5 });
+    writeValue(backend, 'fbk_score', 42);
+    expect(dump(backend)).toEqual({ fbk_settings: '{"baseTimer":5}', fbk_score: '42' });
+  });
+
+  it('keeps the original keys for the standard tuning', () => {
+    expect(getProgressKey('fbk_score', DEFAULT_TUNING_KEY)).toBe('fbk_score');
+    expect(getProgressKey('fbk_score', 'intervals')).toBe('fbk_score:intervals');
+  });
+});
+
+describe('pruneHistory', () => {
+  it(`keeps the last ${HISTORY_DAYS} days`, () => {
+    const history = { '2025-02-03': 1, '2025-02-04': 2, [TODAY]: 3 };
+    expect(pruneHistory(history, TODAY)).toEqual({ '2025-02-04': 2, [TODAY]: 3 });
+  });
+});
+
+describe('migrateStorage', () => {
+  it('drops values of unversioned data that do not parse', () => {
+    const backend = createMemoryBackend({
+      fbk_player_level: '3',
+      'fbk_player_level:bass': 'three',
+      fbk_score: '',
+      fbk_settings: '{broken',
+      'fbk_mastery:intervals': '[1, 2]',
+      fbk_review: '{}',
+      unrelated: 'kept',
+    });
+    expect(migrateStorage(backend, TODAY)).toBe(0);
+    expect(dump(backend)).toEqual({
+      fbk_player_level: '3',
+      fbk_review: '{}',
+      unrelated: 'kept',
+      [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION),
+    });
+  });
+
+  it(`prunes score histories to ${HISTORY_DAYS} days`, () => {
+    const backend = createMemoryBackend({
+      [SCHEMA_VERSION_KEY]: '1',
+      'fbk_history:bass': JSON.stringify({ '2024-12-31': 10, '2026-03-01': 20 }),
+    });
+    expect(migrateStorage(backend, TODAY)).toBe(1);
+    expect(readObject(backend, 'fbk_history:bass', {})).toEqual({ '2026-03-01': createDayRecord(20) });
+  });
+
+  it('turns daily scores into day records', () => {
+    const backend = createMemoryBackend({
+      [SCHEMA_VERSION_KEY]: '2',
+      fbk_history: JSON.stringify({ '2026-03-08': 40, '2026-03-09': { score: 10, rounds: 2 } }),
+    });
+    migrateStorage(backend, TODAY);
+    expect(readObject(backend, 'fbk_history', {})).toEqual({
+      '2026-03-08': { score: 40, rounds: 0, questions: 0, correct: 0, levels: {}, levelUps: [] },
+      '2026-03-09': { ...createDayRecord(10), rounds: 2 },
+    });
+  });
+
+  it('only runs the migrations newer than the saved version', () => {
+    // Version 1 already checked the values, so they are left alone
+    const backend = createMemoryBackend({ [SCHEMA_VERSION_KEY]: '1', fbk_score: 'lots' });
+    migrateStorage(backend, TODAY);
+    expect(backend.getItem('fbk_score')).toBe('lots');
+  });
+
+  it('leaves current data alone', () => {
+    const data = { [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION), fbk_history: JSON.stringify({ '2020-01-01': 5 }) };
+    const backend = createMemoryBackend(data);
+    expect(migrateStorage(backend, TODAY)).toBe(SCHEMA_VERSION);
+    expect(dump(backend)).toEqual(data);
+  });
+
+  it('refuses data saved by a newer version, leaving it untouched', () => {
+    const data = { [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION + 1), fbk_score: 'new format' };
+    const backend = createMemoryBackend(data);
+    expect(() => migrateStorage(backend, TODAY)).toThrow(StorageVersionError);
+    expect(dump(backend)).toEqual(data);
+  });
+});
@@ -0,0 +1,193 @@
+import { DEFAULT_TUNING_KEY } from './instruments';
+import { createDayRecord, type DayRecord } from './stats';
+
+// Persistence layer: typed reads and writes of the saved keys through a swappable backend
+// (the browser's localStorage, or memory for tests), and a schema version with a chain of
+// migrations that upgrade saved data written by earlier versions of the app.
+
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+export function createLocalStorageBackend(storage: Storage = localStorage): StorageBackend {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+  };
+}
+
+export function createMemoryBackend(initial: { [key: string]: string } = {}): StorageBackend {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    keys: () => [...items.keys()],
+  };
+}
+
+// A view of the keys starting with `prefix`, without the prefix
+export function createPrefixedBackend(backend: StorageBackend, prefix: string): StorageBackend {
+  return {
+    getItem: (key) => backend.getItem(prefix + key),
+    setItem: (key, value) => backend.setItem(prefix + key, value),
+    removeItem: (key) => backend.removeItem(prefix + key),
+    keys: () => backend.keys().filter((key) => key.startsWith(prefix)).map((key) => key.slice(prefix.length)),
+  };
+}
+
+// Storage keys. Progress keys are saved per track and tuning, see getProgressKey
+export const SCHEMA_VERSION_KEY = 'fbk_schema_version';
+export const SETTINGS_KEY = 'fbk_settings';
+export const PLAYER_LEVEL_KEY = 'fbk_player_level';
+export const SCORE_KEY = 'fbk_score';
+export const YESTERDAY_KEY = 'fbk_yesterday';
+export const DATE_KEY = 'fbk_date';
+export const HISTORY_KEY = 'fbk_history'; // { 'YYYY-MM-DD': { score, rounds, questions, ... }, ... }, see stats.ts
+export const MASTERY_KEY = 'fbk_mastery'; // { 'stringIdx:fretIdx': { attempts, correct, totalTime }, ... }
+export const REVIEW_KEY = 'fbk_review'; // { 'stringIdx:fretIdx': { ease, interval, repetitions, due }, ... }
+export const ACHIEVEMENTS_KEY = 'fbk_achievements'; // Streak, daily goal and badges of the player, see achievements.ts
+export const CURRICULA_KEY = 'fbk_curricula'; // { [id]: { id, name, levels } }, custom curricula, see curriculum.ts
+export const CONFUSIONS_KEY = 'fbk_confusions'; // { [note]: { [answeredNote]: count } }, see distractors.ts
+
+// Keys saved as an integer and as a JSON object, by base key (see getBaseKey)
+export const NUMBER_KEYS = [PLAYER_LEVEL_KEY, SCORE_KEY, YESTERDAY_KEY];
+export const OBJECT_KEYS = [SETTINGS_KEY, HISTORY_KEY, MASTERY_KEY, REVIEW_KEY, ACHIEVEMENTS_KEY, CURRICULA_KEY, CONFUSIONS_KEY];
+
+// Days of score history kept; older days are dropped when the history is saved.
+// Individual answers are kept in the answer log, see answerLog.ts
+export const HISTORY_DAYS = 400;
+
+// The standard-tuned note track keeps the original keys, so existing progress carries over
+export function getProgressKey(baseKey: string, scope: string): string {
+  return scope === DEFAULT_TUNING_KEY ? baseKey : `${baseKey}:${scope}`;
+}
+
+// Base key of a stored key, without its ':scope' suffix
+export function getBaseKey(key: string): string {
+  return key.split(':')[0];
+}
+
+export function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string | null): unknown {
+  try {
+    return JSON.parse(text ?? 'null');
+  } catch {
+    return undefined;
+  }
+}
+
+export function readString(backend: StorageBackend, key: string): string | null {
+  return backend.getItem(key);
+}
+
+// A stored integer, or the fallback if it is missing or not a number
+export function readNumber(backend: StorageBackend, key: string, fallback: number = 0): number {
+  const stored = backend.getItem(key);
+  const value = stored === null ? NaN : parseInt(stored, 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// A stored JSON object, or the fallback if it is missing or malformed
+export function readObject<T extends object>(backend: StorageBackend, key: string, fallback: T): T {
+  const value = parseJson(backend.getItem(key));
+  return isPlainObject(value) ? (value as T) : fallback;
+}
+
+export function writeValue(backend: StorageBackend, key: string, value: string | number | object): void {
+  backend.setItem(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+}
+
+// The most recent `days` days of a score history, counted back from `today`
+export function pruneHistory<T>(history: { [date: string]: T }, today: string, days: number = HISTORY_DAYS): { [date: string]: T } {
+  const cutoff = new Date(`${today}T00:00:00Z`);
+  cutoff.setUTCDate(cutoff.getUTCDate() - days + 1);
+  const oldest = cutoff.toISOString().slice(0, 10);
+  return Object.fromEntries(Object.entries(history).filter(([date]) => date >= oldest));
+}
+
+interface Migration {
+  version: number; // Schema version the data has after this migration
+  migrate: (backend: StorageBackend, today: string) => void;
+}
+
+// Upgrades from each schema version to the next, in order. Changes to what is saved (a key's
+// format, a reordered level ladder, renamed tunings) add a migration here and bump SCHEMA_VERSION.
+const MIGRATIONS: Migration[] = [
+  {
+    // Unversioned data: drop values that don't parse, which were silently reset on every load
+    version: 1,
+    migrate: (backend) => {
+      for (const key of backend.keys()) {
+        const base = getBaseKey(key);
+        if (NUMBER_KEYS.includes(base) && !Number.isFinite(parseInt(backend.getItem(key) ?? '', 10))) {
+          backend.removeItem(key);
+        }
+        if (OBJECT_KEYS.includes(base) && !isPlainObject(parseJson(backend.getItem(key)))) {
+          backend.removeItem(key);
+        }
+      }
+    },
+  },
+  {
+    // Bound the score histories, which grew by a day forever
+    version: 2,
+    migrate: (backend, today) => {
+      for (const key of backend.keys().filter((k) => getBaseKey(k) === HISTORY_KEY)) {
+        writeValue(backend, key, pruneHistory(readObject(backend, key, {}), today));
+      }
+    },
+  },
+  {
+    // Score histories become daily records with rounds, answers and levels, for the Stats tab
+    version: 3,
+    migrate: (backend) => {
+      for (const key of backend.keys().filter((k) => getBaseKey(k) === HISTORY_KEY)) {
+        const history = readObject<{ [date: string]: unknown }>(backend, key, {});
+        const records: { [date: string]: DayRecord } = {};
+        for (const [date, value] of Object.entries(history)) {
+          records[date] = typeof value === 'number' ? createDayRecord(value) : { ...createDayRecord(), ...(value as Partial<DayRecord>) };
+        }
+        writeValue(backend, key, records);
+      }
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export class StorageVersionError extends Error {
+  constructor(version: number) {
+    super(`Saved data is schema version ${version}, newer than this app's version ${SCHEMA_VERSION}`);
+    this.name = 'StorageVersionError';
+  }
+}
+
+// Bring saved data up to SCHEMA_VERSION; returns the version it had. Data written by a newer
+// version of the app is left untouched and reported with a StorageVersionError.
+export function migrateStorage(backend: StorageBackend, today: string = new Date().toISOString().slice(0, 10)): number {
+  const version = readNumber(backend, SCHEMA_VERSION_KEY, 0);
+  if (version > SCHEMA_VERSION) throw new StorageVersionError(version);
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) {
+      migration.migrate(backend, today);
+      writeValue(backend, SCHEMA_VERSION_KEY, migration.version);
+    }
+  }
+  return version;
+}
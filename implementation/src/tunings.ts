@@ -0,0 +1,42 @@
+import { NOTE_NAMES } from './notes';
+
+// Tunings list open-string notes in TAB order: index 0 = 1st string (highest), last index = lowest string
+export interface TuningPreset {
+  id: string;
+  name: string;
+  strings: string[];
+}
+
+export const CUSTOM_TUNING_ID = 'custom';
+
+// Resolve the open-string notes for a tuning selection, falling back to the first (standard) preset
+export function getTuningStrings(presets: TuningPreset[], tuningId: string, customTuning: string[]): string[] {
+  const standard = presets[0].strings;
+  if (tuningId === CUSTOM_TUNING_ID) {
+    return isValidTuning(customTuning, standard.length) ? customTuning : standard;
+  }
+  return presets.find((preset) => preset.id === tuningId)?.strings ?? standard;
+}
+
+export function isValidTuning(strings: unknown, stringCount: number): strings is string[] {
+  return Array.isArray(strings)
+    && strings.length === stringCount
+    && strings.every((note) => NOTE_NAMES.includes(note));
+}
+
+// Stable identifier for an instrument + tuning, used to keep scores and level progress apart.
+// A custom tuning that matches a preset shares that preset's progress.
+export function getTuningKey(instrumentId: string, strings: string[]): string {
+  return `${instrumentId}:${strings.join('-')}`;
+}
+
+// Semitones from the lowest open string to each open string, walking up the tuning.
+// Each string is taken to sit less than an octave above the one below it.
+export function getStringOffsets(strings: string[]): number[] {
+  const offsets = new Array(strings.length).fill(0);
+  for (let s = strings.length - 2; s >= 0; s--) {
+    const gap = (NOTE_NAMES.indexOf(strings[s]) - NOTE_NAMES.indexOf(strings[s + 1]) + 12) % 12;
+    offsets[s] = offsets[s + 1] + gap;
+  }
+  return offsets;
+}